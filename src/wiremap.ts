@@ -1,18 +1,686 @@
 type Hashmap = Record<string, unknown>;
 
-let unitDefinitions: Hashmap = {};
-let unitCache: Hashmap = {};
-let takenInjectorsKeys = new Set<string>();
-let blockPaths: string[] = [];
-let proxiesCache = new Map<string, unknown>();
+/** Internal state of a wired app. Every call to `wireApp` creates a new one */
+interface Container {
+  definitions: Hashmap;
+  /** Resolved units. Holds singletons in apps and scoped units in scopes */
+  cache: Hashmap;
+  blockPaths: string[];
+  /** Block proxies, indexed by the namespace of the injector that created them */
+  proxies: Map<string, Map<string, unknown>>;
+  /** Injectors that resolved against this container, indexed by namespace */
+  injectors: Map<string, unknown>;
+  /** Object units wrapped to run their methods in this container */
+  boundUnits: WeakMap<object, object>;
+  /** Teardown functions of the cached units by key, in creation order */
+  disposers: Map<string, Disposer>;
+  disposed: boolean;
+  /** Keys of the factories that are running, in call order */
+  resolving: string[];
+  /** Promises of the units of the async factories that are resolving */
+  pending: Map<string, Promise<unknown>>;
+  /** Errors of the async factories that failed */
+  failed: Map<string, unknown>;
+  /** Units injected by the factory of each unit */
+  dependencies: Map<string, Set<string>>;
+  /** Block that hides each unit not exported by the export lists */
+  hidden: Map<string, string>;
+  /** Blocks that are loaded the first time they are injected */
+  lazyBlocks: Map<string, LazyBlock>;
+  /**
+   * Incremented when the definitions change, so block proxies know when to
+   * refresh their units. Shared with the scopes of the app
+   */
+  revision: { value: number };
+  /** Listeners of the changes of the units made by `app.replace` */
+  changeListeners: Set<(change: UnitChange) => void>;
+  /** Wrappers of the function units read through block proxies */
+  interceptors: Interceptor[];
+  /** Observers of the resolution of the units. Shared with the scopes */
+  observers: Set<Observer>;
+  /** Profile that selects the alternatives of the units */
+  profile?: string;
+  /** Profile of the alternative selected for each unit with alternatives */
+  activeProfiles: Map<string, string>;
+  /** The app container, only present in scopes */
+  parent?: Container;
+  /** Scopes created by the app, held weakly where the runtime allows it */
+  scopes: Set<Ref<Container>>;
+  /** Called when a unit or block that does not exist is injected */
+  onMissing?: (path: string) => void;
+}
+
+type Disposer = () => unknown;
+
+function createContainer(
+  defs: Hashmap,
+  options: WireOptions<Hashmap> = {},
+): Container {
+  const activeProfiles = new Map<string, string>();
+  const definitions = selectProfiles(defs, options.profile, activeProfiles);
+  recordMounts(defs);
+  return {
+    definitions,
+    cache: {},
+    blockPaths: getBlockPaths(definitions),
+    proxies: new Map(),
+    injectors: new Map(),
+    boundUnits: new WeakMap(),
+    disposers: new Map(),
+    disposed: false,
+    resolving: [],
+    pending: new Map(),
+    failed: new Map(),
+    dependencies: new Map(),
+    hidden: getHiddenUnits(defs),
+    lazyBlocks: getLazyBlocks(defs),
+    revision: { value: 0 },
+    changeListeners: new Set(),
+    interceptors: options.interceptors ?? [],
+    observers: new Set(options.observers),
+    profile: options.profile,
+    activeProfiles,
+    scopes: new Set(),
+  };
+}
+
+/** Creates a scope that shares definitions and singletons with `parent` */
+function createChildContainer(parent: Container): Container {
+  const scope: Container = {
+    ...createContainer({}),
+    definitions: parent.definitions,
+    blockPaths: parent.blockPaths,
+    dependencies: parent.dependencies,
+    hidden: parent.hidden,
+    lazyBlocks: parent.lazyBlocks,
+    revision: parent.revision,
+    changeListeners: parent.changeListeners,
+    interceptors: parent.interceptors,
+    observers: parent.observers,
+    profile: parent.profile,
+    activeProfiles: parent.activeProfiles,
+    parent,
+  };
+  parent.scopes.add(createRef(scope));
+  return scope;
+}
+
+/** Scopes of the app that are neither disposed nor garbage collected */
+function getLiveScopes(container: Container): Container[] {
+  const scopes: Container[] = [];
+  container.scopes.forEach((ref) => {
+    const scope = ref.deref();
+    if (scope && !scope.disposed) {
+      scopes.push(scope);
+    } else {
+      container.scopes.delete(ref);
+    }
+  });
+  return scopes;
+}
+
+/**
+ * Minimal interface of a context store, compatible with `AsyncLocalStorage`
+ * from `node:async_hooks`.
+ */
+export interface ContextStorage {
+  run<R>(store: unknown, callback: () => R): R;
+  getStore(): unknown;
+}
+
+/**
+ * Context storage used where `AsyncLocalStorage` is not available. It only
+ * tracks synchronous execution, so the container is lost after the first
+ * `await` of an async unit
+ */
+function createStackStorage(): ContextStorage {
+  const stack: unknown[] = [];
+  return {
+    run(store, callback) {
+      stack.push(store);
+      try {
+        return callback();
+      } finally {
+        stack.pop();
+      }
+    },
+    getStore() {
+      return stack[stack.length - 1];
+    },
+  };
+}
+
+/** `AsyncLocalStorage` of `node:async_hooks`, in the runtimes that have it */
+function createAsyncLocalStorage(): ContextStorage | undefined {
+  const { process } = globalThis as unknown as {
+    process?: {
+      getBuiltinModule?(
+        name: string,
+      ): { AsyncLocalStorage?: new () => ContextStorage } | undefined;
+    };
+  };
+  const asyncHooks = process?.getBuiltinModule?.("node:async_hooks");
+  return asyncHooks?.AsyncLocalStorage && new asyncHooks.AsyncLocalStorage();
+}
+
+const stackStorage = createStackStorage();
+
+let contextStorage: ContextStorage = createAsyncLocalStorage() ?? stackStorage;
+
+interface Ref<T> {
+  deref(): T | undefined;
+}
+
+/** Holds `value` weakly where the runtime supports `WeakRef` */
+function createRef<T extends object>(value: T): Ref<T> {
+  const { WeakRef } = globalThis as unknown as {
+    WeakRef?: new (value: T) => Ref<T>;
+  };
+  return WeakRef ? new WeakRef(value) : { deref: () => value };
+}
+
+/**
+ * Async calls that are awaiting, by container. The stack storage loses their
+ * context after an `await`, so injectors can only fall back to the last wired
+ * app while no other container is awaiting
+ */
+const awaitingCalls = new Map<Container, number>();
+
+/** Last wired app, used when an injector is called outside of any container */
+let lastWiredApp: Container | undefined;
+
+/**
+ * Replaces the storage used to track which app is executing a unit. By
+ * default it is an `AsyncLocalStorage` where the runtime provides
+ * `node:async_hooks`. Pass an equivalent in other runtimes to keep track of
+ * the app across async continuations.
+ *
+ * @param storage - An `AsyncLocalStorage`-like object
+ * @example
+ * import { AsyncLocalStorage } from "node:async_hooks";
+ * import { setContextStorage } from "wiremap";
+ *
+ * setContextStorage(new AsyncLocalStorage());
+ */
+export function setContextStorage(storage: ContextStorage): void {
+  contextStorage = storage;
+}
+
+/** What is being executed, stored in the context storage */
+interface Frame {
+  container: Container;
+  /** Full path of the unit being executed, if any */
+  key?: string;
+  /**
+   * Factories being built in this context, from the first one. Unlike
+   * `container.resolving`, it includes the async factories that are awaiting
+   */
+  path: string[];
+}
+
+function runInContainer<R>(
+  container: Container,
+  callback: () => R,
+  key?: string,
+  path = getFramePath(container),
+): R {
+  const frame: Frame = { container, key, path };
+  const result = contextStorage.run(frame, callback);
+  if (contextStorage !== stackStorage || !isPromise(result)) return result;
+
+  awaitingCalls.set(container, (awaitingCalls.get(container) ?? 0) + 1);
+  const release = () => {
+    const count = (awaitingCalls.get(container) ?? 1) - 1;
+    if (count) awaitingCalls.set(container, count);
+    else awaitingCalls.delete(container);
+  };
+  result.then(release, release);
+  return result;
+}
+
+/** Factories being built in the current context of `container` */
+function getFramePath(container: Container): string[] {
+  const frame = contextStorage.getStore() as Frame | undefined;
+  return frame?.container === container ? frame.path : [];
+}
+
+function getCurrentFrame(): Frame {
+  const frame = contextStorage.getStore() as Frame | undefined;
+  if (frame) return frame;
+
+  // outside of any app, or in an async continuation that lost its context
+  const awaiting = Array.from(awaitingCalls.keys());
+  if (awaiting.some((container) => container !== lastWiredApp)) {
+    throw new Error(
+      "Can not tell which app is executing the injector, as the context is " +
+        "lost after an `await`. Pass an `AsyncLocalStorage` to " +
+        "`setContextStorage`.",
+    );
+  }
+  if (!lastWiredApp) {
+    throw new Error("No app has been wired yet.");
+  }
+  return { container: lastWiredApp, path: [] };
+}
+
+function getCurrentContainer(): Container {
+  return getCurrentFrame().container;
+}
+
+/** Event of the resolution of a factory */
+interface ResolveEvent {
+  /** Full path of the unit */
+  key: string;
+  /** Block that injected the unit, `undefined` while wiring the app */
+  requestingBlock?: string;
+  /** Milliseconds since the factory started, in the events that end it */
+  duration?: number;
+  /** Error thrown by the factory, in `resolveError` */
+  error?: unknown;
+}
+
+/**
+ * Receives the events of the resolution of the factories:
+ * - `resolveStart`: a factory is about to run
+ * - `resolveEnd`: a factory returned its unit
+ * - `resolveError`: a factory failed
+ * - `asyncResolved`: the promise of an async factory resolved
+ * - `cacheHit`: a cached unit of a factory was injected
+ */
+interface Observer {
+  resolveStart?(event: ResolveEvent): void;
+  resolveEnd?(event: ResolveEvent): void;
+  resolveError?(event: ResolveEvent): void;
+  asyncResolved?(event: ResolveEvent): void;
+  cacheHit?(event: ResolveEvent): void;
+}
+
+type ResolveEventType = keyof Observer;
+
+function notify(
+  container: Container,
+  type: ResolveEventType,
+  event: ResolveEvent,
+): void {
+  container.observers.forEach((observer) => observer[type]?.(event));
+}
+
+/**
+ * Resolves a unit like `resolveUnit`, notifying the observers. Only used when
+ * there are observers
+ */
+function resolveObserved(
+  container: Container,
+  key: string,
+  requestingBlock?: string,
+): unknown {
+  const def = container.definitions[key];
+  if (!isFactory(def)) return def;
+
+  const owner =
+    getLifetime(def) === "scoped" ? container : (container.parent ?? container);
+  if (getLifetime(def) !== "transient" && key in owner.cache) {
+    notify(container, "cacheHit", { key, requestingBlock });
+    return owner.cache[key];
+  }
+  // already started, its events are notified by the first injection
+  if (owner.pending.has(key)) return resolveUnit(container, key);
+
+  notify(container, "resolveStart", { key, requestingBlock });
+  const start = performance.now();
+  try {
+    const unit = resolveUnit(container, key);
+    notify(container, "resolveEnd", {
+      key,
+      requestingBlock,
+      duration: performance.now() - start,
+    });
+    if (isPromise(unit)) {
+      unit.then(
+        () =>
+          notify(container, "asyncResolved", {
+            key,
+            requestingBlock,
+            duration: performance.now() - start,
+          }),
+        (error) =>
+          notify(container, "resolveError", {
+            key,
+            requestingBlock,
+            duration: performance.now() - start,
+            error,
+          }),
+      );
+    }
+    return unit;
+  } catch (error) {
+    notify(container, "resolveError", {
+      key,
+      requestingBlock,
+      duration: performance.now() - start,
+      error,
+    });
+    throw error;
+  }
+}
+
+/** Time that a factory took to build its unit */
+interface FactoryTiming {
+  key: string;
+  duration: number;
+}
+
+/**
+ * Creates an observer that measures the factories, to find the slowest ones
+ * while wiring the app.
+ *
+ * @returns Observer to pass to `wireApp` or `app.observe`, with methods to get the slowest factories
+ * @example
+ * import { createProfiler, wireApp } from "wiremap";
+ *
+ * const profiler = createProfiler();
+ * const app = await wireApp(units, { observers: [profiler] });
+ * console.log(profiler.report());
+ */
+export function createProfiler(): Observer & {
+  /** Factories sorted by the time they took, the slowest first */
+  slowest(limit?: number): FactoryTiming[];
+  /** Readable list of the slowest factories */
+  report(limit?: number): string;
+} {
+  const timings = new Map<string, number>();
+
+  function record({ key, duration = 0 }: ResolveEvent): void {
+    timings.set(key, Math.max(duration, timings.get(key) ?? 0));
+  }
+
+  function slowest(limit = 10): FactoryTiming[] {
+    return Array.from(timings, ([key, duration]) => ({ key, duration }))
+      .sort((a, b) => b.duration - a.duration)
+      .slice(0, limit);
+  }
+
+  return {
+    resolveEnd: record,
+    asyncResolved: record,
+    slowest,
+    report: (limit) =>
+      ["Slowest factories:"]
+        .concat(
+          slowest(limit).map(
+            ({ key, duration }) => `  ${duration.toFixed(1)}ms ${key}`,
+          ),
+        )
+        .join("\n"),
+  };
+}
+
+/** Converts a glob of unit paths, like `user.service.*`, to a RegExp */
+function globToRegExp(glob: string): RegExp {
+  const source = glob
+    .split("**")
+    .map((part) =>
+      part
+        .split("*")
+        .map((text) => text.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+        .join("[^.]*"),
+    )
+    .join(".*");
+  return new RegExp(`^${source}$`);
+}
+
+function isIntercepted(
+  interceptor: Interceptor,
+  key: string,
+  def: unknown,
+): boolean {
+  if (interceptor.match && !globToRegExp(interceptor.match).test(key)) {
+    return false;
+  }
+  if (interceptor.flag) {
+    return (
+      isFunction(def) && (def as Hashmap & Func)[interceptor.flag] === true
+    );
+  }
+  return true;
+}
+
+/** Wraps a function unit with the interceptors that match it */
+function intercept(container: Container, fn: Func, key: string): Func {
+  const def = container.definitions[key];
+  const interceptors = container.interceptors.filter((interceptor) =>
+    isIntercepted(interceptor, key, def),
+  );
+  if (!interceptors.length) return fn;
+
+  const block = getBlockOf(key);
+  return function (this: unknown, ...args: unknown[]) {
+    const call: InterceptedCall = { key, block, args };
+    const run = (index: number): unknown =>
+      index === interceptors.length
+        ? fn.apply(this, call.args)
+        : interceptors[index].intercept(call, () => run(index + 1));
+    return run(0);
+  };
+}
+
+/** Binds a function unit so its injections resolve against `container` */
+function bindToContainer(container: Container, fn: Func, key: string): Func {
+  return function (this: unknown, ...args: unknown[]) {
+    return runInContainer(container, () => fn.apply(this, args), key);
+  };
+}
+
+/**
+ * Wraps an object unit so its methods run in `container`, like function
+ * units. Read-only methods that can not be configured are returned as they
+ * are, as proxies must report them unchanged
+ */
+function bindObjectToContainer(
+  container: Container,
+  unit: object,
+  key: string,
+): object {
+  const cached = container.boundUnits.get(unit);
+  if (cached) return cached;
+
+  const methods = new WeakMap<Func, Func>();
+  const bound: object = new Proxy(unit, {
+    get(target, prop) {
+      // read with the unit as receiver, so getters reach its internal slots
+      const value: unknown = Reflect.get(target, prop);
+      if (!isFunction(value)) return value;
+      const descriptor = Object.getOwnPropertyDescriptor(target, prop);
+      if (descriptor && !descriptor.configurable && !descriptor.writable) {
+        return value;
+      }
+
+      let method = methods.get(value);
+      if (!method) {
+        const fn = value as Func;
+        method = function (this: unknown, ...args: unknown[]) {
+          const self = this === bound ? target : this;
+          return runInContainer(container, () => fn.apply(self, args), key);
+        };
+        methods.set(value, method);
+      }
+      return method;
+    },
+  });
+  container.boundUnits.set(unit, bound);
+  return bound;
+}
 
 type WiredApp<Defs extends Hashmap> =
-  HasAsync<Defs> extends true
-    ? Promise<BlockInjector<Defs, "">>
-    : BlockInjector<Defs, "">;
+  HasAsync<Defs> extends true ? Promise<App<Defs>> : App<Defs>;
+
+/** Root injector of a scope, with the methods to manage it */
+interface Scope<Defs extends Hashmap> extends BlockInjector<Defs, ""> {
+  /**
+   * Tears down the units created by factories in reverse creation order,
+   * awaiting async disposers. Disposing an app disposes its scopes first.
+   * The scope can not be used afterwards
+   */
+  dispose(): Promise<void>;
+  [Symbol.dispose](): void;
+  [Symbol.asyncDispose](): Promise<void>;
+}
+
+/** Root injector of a wired app, with the methods to manage it */
+interface App<Defs extends Hashmap> extends Scope<Defs> {
+  /**
+   * Creates a child scope that caches its own instances of the units with a
+   * `"scoped"` lifetime, and shares the singletons with the app
+   */
+  createScope(): Scope<Defs>;
+  /**
+   * Describes the blocks and units of the app, and the dependencies between
+   * them. Export it with `graphToDot`, `graphToMermaid` or `graphToJSON`
+   */
+  inspect(): AppGraph;
+  /**
+   * Settles once the async factories are built while wiring the app, and
+   * rejects with a `StartupError` if any fails
+   */
+  ready: Promise<void>;
+  /**
+   * Wires a new app from the same definitions, replacing the units in
+   * `overrides`. The overrides of this app are kept
+   */
+  withOverrides(overrides: Overrides<Defs>): WiredApp<Defs>;
+  /**
+   * Adds blocks and units to the running app, and returns the app typed with
+   * them. Returns a promise when they include async factories
+   */
+  extend<E extends Hashmap>(defs: E): ExtendedApp<Defs, E>;
+  /**
+   * Replaces the definition of a unit in the running app. The cached units
+   * that depend on it, in the app and its scopes, are built again on their
+   * next injection. Async singletons are rebuilt right away, serving their
+   * previous instance until then, and the promise resolves when they are
+   */
+  replace<K extends keyof Defs & string>(
+    key: K,
+    definition: Defs[K] | InferUnitValue<Defs[K]>,
+  ): Promise<void>;
+  /**
+   * Listens to the units replaced or invalidated by `replace`, so their
+   * previous instances can be cleaned up. Returns a function to stop
+   * listening
+   */
+  onChange(listener: (change: UnitChange) => void): () => void;
+  /**
+   * Attaches an observer of the resolution of the units. Returns a function
+   * to detach it
+   */
+  observe(observer: Observer): () => void;
+  /**
+   * Finds the units with a tag, or in the blocks that match a glob like
+   * `user.*`, and resolves them. Scoped and transient units are resolved
+   * when their `value` is read. Like injectors outside of their blocks, it
+   * skips private units and the units not exported by their blocks
+   */
+  query<T extends UnitTags<Defs>>(
+    filter: UnitQuery<T> & { tag: T },
+  ): QueryResult<Defs, TaggedKeys<Defs, T> & PublicUnitPaths<Defs, "">>[];
+  query(
+    filter: UnitQuery<never>,
+  ): QueryResult<Defs, Extract<PublicUnitPaths<Defs, "">, string>>[];
+  /**
+   * Runs the health checks of the units concurrently, and reports them by
+   * block, along with the async factories that are pending or failed. The
+   * checks of scoped and transient units are skipped, as they have no
+   * instance in the app
+   */
+  health(): Promise<HealthReport>;
+  /**
+   * Replaces a unit with the version returned by `decorator`, which receives
+   * the current one, like `app.replace`. Definitions keep their flags, and
+   * the units of factories are decorated every time they are built
+   */
+  decorate<K extends keyof Defs & string>(
+    key: K,
+    decorator: (
+      unit: InferUnitValue<Defs[K]>,
+    ) => Decorated<InferUnitValue<Defs[K]>>,
+  ): Promise<void>;
+}
+
+/** App returned by `app.extend`, a promise when `E` has async factories */
+type ExtendedApp<Defs extends Hashmap, E extends Hashmap> =
+  HasAsync<E> extends true ? Promise<App<Defs & E>> : App<Defs & E>;
+
+/** Type of a decorated unit, functions don't need to keep their flags */
+type Decorated<T> = T extends (...args: infer A) => infer R
+  ? (...args: A) => R
+  : T;
+
+/** Unit replaced, or invalidated because it depends on a replaced unit */
+interface UnitChange {
+  /** Full path of the unit */
+  key: string;
+  reason: "replaced" | "invalidated";
+  /** Instance that is no longer used, `undefined` if it was never built */
+  previous: unknown;
+}
+
+/** Replacements for some units, typed after the original definitions */
+type Overrides<Defs extends Hashmap> = {
+  [K in keyof Defs]?: Defs[K] | InferUnitValue<Defs[K]>;
+};
+
+interface WireOptions<Defs extends Hashmap> {
+  /** Units to use instead of the ones in the definitions */
+  overrides?: Overrides<Defs>;
+  /** Wrappers of the function units, applied in order, the first outermost */
+  interceptors?: Interceptor[];
+  /** Observers of the resolution of the units, including the startup */
+  observers?: Observer[];
+  /**
+   * Selects the alternatives of the units created with `withProfiles`. Units
+   * without an alternative for it use their `default` one
+   */
+  profile?: string;
+  /**
+   * Whether `wireApp` returns a promise of the app that resolves once the
+   * async factories are built, `true` by default. When `false`, the app is
+   * returned right away, so `app.health()` can report the startup
+   */
+  wait?: boolean;
+}
+
+/** Call to a function unit, received by the interceptors */
+interface InterceptedCall {
+  /** Full path of the unit */
+  key: string;
+  /** Path of the block of the unit, `""` for root units */
+  block: string;
+  args: unknown[];
+}
+
+/**
+ * Wraps the calls to the function units that it matches. It calls `next` to
+ * run the unit, or the next interceptor, and returns its result. Errors
+ * thrown by the unit are thrown by `next`, or rejected when it is async
+ */
+interface Interceptor {
+  /**
+   * Glob of the paths of the units, where `*` matches a segment and `**`
+   * any number of them, like `user.service.*`
+   */
+  match?: string;
+  /** Flag that the definitions of the units must have, like `"isAudited"` */
+  flag?: string;
+  intercept(call: InterceptedCall, next: () => unknown): unknown;
+}
+
+const disposeSymbol: typeof Symbol.dispose =
+  Symbol.dispose ?? Symbol.for("Symbol.dispose");
+const asyncDisposeSymbol: typeof Symbol.asyncDispose =
+  Symbol.asyncDispose ?? Symbol.for("Symbol.asyncDispose");
 
 type HasAsync<T extends Hashmap> = true extends {
-  [K in keyof T]: IsAsyncFactory<T[K]>;
+  [K in keyof T]: IsLazyUnit<T[K]> extends true ? false : IsAsyncFactory<T[K]>;
 }[keyof T]
   ? true
   : false;
@@ -21,6 +689,7 @@ type HasAsync<T extends Hashmap> = true extends {
  * Wires up a dependency injection application from unit definitions.
  *
  * @param defs - Object containing unit definitions, where keys are unit names and values are factories or values
+ * @param options - Wiring options, like `overrides` to replace some units
  * @returns Promise<BlockInjector> if async factory units exist, otherwise BlockInjector for synchronous resolution
  * @example
  * // Define your units
@@ -42,125 +711,1667 @@ type HasAsync<T extends Hashmap> = true extends {
  * // Access units inside a block
  * const db = app("database");
  * console.log(db.connection.url); // "mongodb://localhost"
+ *
+ * Every call returns an isolated app with its own definitions and cache.
+ * Injectors created with `createInjector` resolve against the app that is
+ * executing them, or against the last wired app when called from outside.
+ *
+ * // Tear down the units when done
+ * await app.dispose();
+ *
+ * // Replace some units, the rest are resolved as usual
+ * const testApp = wireApp(units, {
+ *   overrides: { config: { port: 4000, host: "localhost" } },
+ * });
  */
-export function wireApp<Defs extends Hashmap>(defs: Defs): WiredApp<Defs> {
-  unitDefinitions = defs;
-  unitCache = {};
-  proxiesCache = new Map();
-  blockPaths = getBlockPaths(defs);
-  takenInjectorsKeys = new Set<string>();
-  const injector = generateInjector<Defs, "">("");
+export function wireApp<Defs extends Hashmap>(
+  defs: Defs & SatisfiedContracts<Defs>,
+  options: WireOptions<Defs> & { wait: false },
+): App<Defs>;
+export function wireApp<Defs extends Hashmap>(
+  defs: Defs & SatisfiedContracts<Defs>,
+  options?: WireOptions<Defs>,
+): WiredApp<Defs>;
+export function wireApp<Defs extends Hashmap>(
+  defs: Defs & SatisfiedContracts<Defs>,
+  options: WireOptions<Defs> = {},
+): WiredApp<Defs> | App<Defs> {
+  assertValidKeys(defs);
+  assertContracts(defs);
+  const container = createContainer(
+    applyOverrides(defs, options.overrides),
+    options as WireOptions<Hashmap>,
+  );
+  lastWiredApp = container;
+  const startup = hasAsyncKeys(container.definitions)
+    ? resolveAsyncFactories(container)
+    : undefined;
+  const app = createApp<Defs>(
+    container,
+    startup ?? Promise.resolve(),
+    (overrides) =>
+      wireApp(defs, {
+        ...options,
+        overrides: { ...options.overrides, ...overrides },
+      } as WireOptions<Defs>),
+  );
 
-  if (hasAsyncKeys(defs)) {
+  if (startup && options.wait !== false) {
     // This will cause wireApp to return a promise that resolves
     // when all async factories are resolved
-    return resolveAsyncFactories().then(() => injector) as WiredApp<Defs>;
+    return startup.then(
+      () => app,
+      async (error) => {
+        // the caller gets no app to dispose the units that were built
+        await disposeContainer(container).catch(() => undefined);
+        throw error;
+      },
+    ) as WiredApp<Defs>;
   }
-
-  return injector as WiredApp<Defs>;
+  // failures are reported by `app.ready` and `app.health()`
+  startup?.catch(() => undefined);
+  return app as WiredApp<Defs>;
 }
 
 /**
- * Extract the paths of the blocks with units of a hashmap
- *
- * BlockPaths<{
- *   a: 1,
- *   "b.c": 2,
- *   "b.d": 3,
- *   "b.e.f.other": 3,
- * }> // "b" | "b.e.f":
+ * Error thrown when the app does not define some units required by the
+ * contracts of its blocks
  */
-type BlockPaths<L extends Hashmap> = {
-  [K in keyof L]: ExtractBlockPath<Extract<K, string>>;
+export class UnmetContractError extends Error {
+  /** Missing units, with the block that requires them */
+  missing: { block: string; key: string }[];
+
+  constructor(missing: { block: string; key: string }[]) {
+    super(
+      `Missing units required by block contracts:\n` +
+        missing
+          .map(({ block, key }) => `- "${key}" required by block "${block}"`)
+          .join("\n"),
+    );
+    this.name = "UnmetContractError";
+    this.missing = missing;
+  }
+}
+
+function assertContracts(defs: Hashmap): void {
+  const missing: { block: string; key: string }[] = [];
+  for (const symbol of getMetadataSymbols(defs, contractDescription)) {
+    const { block, keys } = getMetadata<BlockContract>(defs, symbol);
+    for (const key of keys) {
+      if (!(key in defs)) missing.push({ block, key });
+    }
+  }
+  if (missing.length) throw new UnmetContractError(missing);
+}
+
+function applyOverrides(defs: Hashmap, overrides: Hashmap = {}): Hashmap {
+  for (const key of Object.keys(overrides)) {
+    if (!(key in defs)) {
+      throw new Error(`Override "${key}" does not match any unit.`);
+    }
+  }
+  return { ...defs, ...overrides };
+}
+
+function createApp<Defs extends Hashmap>(
+  container: Container,
+  ready: Promise<void>,
+  withOverrides: (overrides: Overrides<Defs>) => WiredApp<Defs>,
+): App<Defs> {
+  const app: App<Defs> = Object.assign(createScopeInjector<Defs>(container), {
+    createScope: () => {
+      assertNotDisposed(container);
+      return createScopeInjector<Defs>(createChildContainer(container));
+    },
+    inspect: () => inspectContainer(container),
+    ready,
+    withOverrides,
+    extend: <E extends Hashmap>(defs: E) => {
+      const extension = extendContainer(container, defs);
+      const extended = extension ? extension.then(() => app) : app;
+      return extended as ExtendedApp<Defs, E>;
+    },
+    replace: (key: string, definition: unknown) =>
+      replaceUnit(container, key, definition),
+    decorate: (key: string, decorator: (unit: never) => unknown) =>
+      replaceUnit(
+        container,
+        key,
+        decorateDefinition(
+          container.definitions[key],
+          decorator as (unit: unknown) => unknown,
+        ),
+      ),
+    health: () => checkHealth(container),
+    query: <K extends keyof Defs & string>(filter: UnitQuery<string>) =>
+      queryUnits(container, filter) as QueryResult<Defs, K>[],
+    observe: (observer: Observer) => {
+      container.observers.add(observer);
+      return () => {
+        container.observers.delete(observer);
+      };
+    },
+    onChange: (listener: (change: UnitChange) => void) => {
+      container.changeListeners.add(listener);
+      return () => {
+        container.changeListeners.delete(listener);
+      };
+    },
+  });
+  return app;
+}
+
+/** Wraps a definition, or the units built by it when it is a factory */
+function decorateDefinition(
+  def: unknown,
+  decorator: (unit: unknown) => unknown,
+): unknown {
+  if (!isFactory(def)) {
+    const unit = decorator(def);
+    return isFunction(unit) && isFunction(def)
+      ? Object.assign(unit, def)
+      : unit;
+  }
+  const factory = isAsyncFactory(def)
+    ? async () => decorator(await def())
+    : () => decorator(def());
+  return Object.assign(factory, def);
+}
+
+type HealthStatus = "healthy" | "unhealthy" | "pending" | "failed";
+
+interface UnitHealth {
+  status: HealthStatus;
+  /** Milliseconds that the health check took */
+  duration: number;
+  error?: string;
+}
+
+/** Result of `app.health()` */
+interface HealthReport {
+  /** Whether every health check passed */
+  healthy: boolean;
+  /** Whether the app is healthy and no async factory is pending or failed */
+  ready: boolean;
+  /** HTTP status code for readiness endpoints, 200 when ready, or 503 */
+  statusCode: 200 | 503;
+  /** Health of the checked, pending and failed units of every block */
+  blocks: Record<
+    string,
+    { healthy: boolean; units: Record<string, UnitHealth> }
+  >;
+}
+
+/** Health check of a unit, set with the `healthCheck` flag */
+interface HealthChecked {
+  /** Throws, rejects or returns `false` when the unit is unhealthy */
+  healthCheck: (unit: unknown) => unknown;
+  /** Maximum time in milliseconds of the health check, 5000 by default */
+  healthTimeout?: number;
+}
+
+function hasHealthCheck(def: unknown): def is HealthChecked {
+  return (
+    (isFunction(def) || (typeof def === "object" && def !== null)) &&
+    "healthCheck" in def &&
+    isFunction(def.healthCheck)
+  );
+}
+
+async function checkUnitHealth(
+  container: Container,
+  key: string,
+): Promise<UnitHealth> {
+  if (container.pending.has(key)) return { status: "pending", duration: 0 };
+  if (container.failed.has(key)) {
+    return {
+      status: "failed",
+      duration: 0,
+      error: getErrorMessage(container.failed.get(key)),
+    };
+  }
+
+  const def = container.definitions[key] as HealthChecked;
+  const start = performance.now();
+  try {
+    const unit = await resolveUnit(container, key);
+    const result = await withTimeout(
+      runInContainer(container, () => def.healthCheck(unit), key),
+      def.healthTimeout ?? 5000,
+      key,
+      `Health check of "${key}"`,
+    );
+    const duration = performance.now() - start;
+    return result === false
+      ? { status: "unhealthy", duration }
+      : { status: "healthy", duration };
+  } catch (error) {
+    return {
+      status: "unhealthy",
+      duration: performance.now() - start,
+      error: getErrorMessage(error),
+    };
+  }
+}
+
+async function checkHealth(container: Container): Promise<HealthReport> {
+  assertNotDisposed(container);
+  const { definitions } = container;
+  const keys = Object.keys(definitions).filter((key) => {
+    const def = definitions[key];
+    if (isFactory(def) && getLifetime(def) !== "singleton") return false;
+    return (
+      hasHealthCheck(def) ||
+      container.pending.has(key) ||
+      container.failed.has(key)
+    );
+  });
+  const results = await Promise.all(
+    keys.map((key) => checkUnitHealth(container, key)),
+  );
+
+  const blocks: HealthReport["blocks"] = {};
+  keys.forEach((key, index) => {
+    const block = getBlockOf(key);
+    const unit = block === "" ? key : key.slice(block.length + 1);
+    blocks[block] ??= { healthy: true, units: {} };
+    blocks[block].units[unit] = results[index];
+    if (results[index].status === "unhealthy") {
+      blocks[block].healthy = false;
+    }
+  });
+
+  const healthy = results.every(({ status }) => status !== "unhealthy");
+  const ready = healthy && results.every(({ status }) => status === "healthy");
+  return { healthy, ready, statusCode: ready ? 200 : 503, blocks };
+}
+
+/** Tags of the units of `L`, set with the `tags` flag */
+type UnitTags<L extends Hashmap> = {
+  [K in keyof L]: L[K] extends { tags: readonly (infer T extends string)[] }
+    ? T
+    : never;
 }[keyof L];
 
-/** Extract keys with no dots in them */
-type NoDots<T extends string> = T extends `${string}.${string}` ? never : T;
+/** Paths of the units tagged with `T` */
+type TaggedKeys<L extends Hashmap, T extends string> = {
+  [K in keyof L]: L[K] extends { tags: readonly (infer Tag)[] }
+    ? T extends Tag
+      ? K
+      : never
+    : never;
+}[keyof L] &
+  string;
+
+interface UnitQuery<T extends string> {
+  /** Tag that the units must have */
+  tag?: T;
+  /** Glob of the paths of the blocks, where `*` matches a segment */
+  block?: string;
+}
+
+/** Unit found by `app.query` */
+type QueryResult<L extends Hashmap, K extends keyof L & string> = {
+  [P in K]: {
+    key: P;
+    value: InferUnitValue<L[P]>;
+    tags: string[];
+    /** Free metadata of the unit, set with the `meta` flag */
+    meta: Hashmap;
+  };
+}[K];
+
+/** Tags and metadata that any unit can declare */
+interface UnitMetadata {
+  tags?: readonly string[];
+  meta?: Hashmap;
+}
+
+function getUnitMetadata(def: unknown): Required<UnitMetadata> {
+  if (!isFunction(def) && (typeof def !== "object" || def === null)) {
+    return { tags: [], meta: {} };
+  }
+  const { tags = [], meta = {} } = def as UnitMetadata;
+  return { tags, meta };
+}
+
+function queryUnits(
+  container: Container,
+  filter: UnitQuery<string>,
+): { key: string; value: unknown; tags: string[]; meta: Hashmap }[] {
+  assertNotDisposed(container);
+  const block = filter.block ? globToRegExp(filter.block) : undefined;
+
+  return Object.keys(container.definitions)
+    .filter((key) => {
+      const def = container.definitions[key];
+      // only the units that the blocks expose to the rest of the app
+      if (isPrivate(def) || getHidingBlock(container, key, "") !== undefined) {
+        return false;
+      }
+      const { tags } = getUnitMetadata(def);
+      if (filter.tag !== undefined && !tags.includes(filter.tag)) return false;
+      return !block || block.test(getBlockOf(key));
+    })
+    .map((key) => {
+      const def = container.definitions[key];
+      const { tags, meta } = getUnitMetadata(def);
+      // scoped units can not be resolved in the app, and transient ones
+      // would be built just to be listed
+      if (isFactory(def) && getLifetime(def) !== "singleton") {
+        return {
+          key,
+          get value() {
+            return readUnit(container, key, "");
+          },
+          tags: [...tags],
+          meta,
+        };
+      }
+      return {
+        key,
+        value: readUnit(container, key, ""),
+        tags: [...tags],
+        meta,
+      };
+    });
+}
+
+/** Keys of the units that depend on `key`, directly or through other units */
+function getDependents(container: Container, key: string): string[] {
+  const dependents = new Set<string>();
+  const queue = [key];
+  while (queue.length) {
+    const current = queue.shift() as string;
+    container.dependencies.forEach((dependencies, dependent) => {
+      if (dependencies.has(current) && !dependents.has(dependent)) {
+        dependents.add(dependent);
+        queue.push(dependent);
+      }
+    });
+  }
+  dependents.delete(key);
+  return Array.from(dependents);
+}
 
 /**
- * Extracts the path of a block from a unit path.
- * Returns never if the path does not contain dots.
+ * Replaces the definition of a unit and removes from the cache the units
+ * that depend on it, notifying the change listeners
+ */
+async function replaceUnit(
+  container: Container,
+  key: string,
+  definition: unknown,
+): Promise<void> {
+  assertNotDisposed(container);
+  if (!(key in container.definitions)) {
+    const block = getBlockOf(key);
+    const unit = block === "" ? key : key.slice(block.length + 1);
+    throw new UnitNotFoundError(
+      block,
+      unit,
+      "",
+      getSuggestions(key, Object.keys(container.definitions)),
+    );
+  }
+
+  // cached instances of the unit and its dependents, in the app and scopes
+  const changes: UnitChange[] = [];
+  const stale: { owner: Container; change: UnitChange }[] = [];
+  const changedKeys = [key, ...getDependents(container, key)];
+  for (const owner of [container, ...getLiveScopes(container)]) {
+    for (const changed of changedKeys) {
+      if (!(changed in owner.cache)) continue;
+      const change: UnitChange = {
+        key: changed,
+        reason: changed === key ? "replaced" : "invalidated",
+        previous: owner.cache[changed],
+      };
+      changes.push(change);
+      stale.push({ owner, change });
+    }
+  }
+  if (!changes.some((change) => change.key === key)) {
+    const previous = container.definitions[key];
+    changes.unshift({
+      key,
+      reason: "replaced",
+      previous: isFactory(previous) ? undefined : previous,
+    });
+  }
+
+  container.definitions[key] = definition;
+  container.dependencies.delete(key);
+  // async singletons keep serving their previous instance until rebuilt
+  const rebuilt: UnitChange[] = [];
+  for (const { owner, change } of stale) {
+    const def = container.definitions[change.key];
+    container.dependencies.delete(change.key);
+    if (
+      owner === container &&
+      isAsyncFactory(def) &&
+      getLifetime(def as Factory<unknown>) === "singleton"
+    ) {
+      rebuilt.push(change);
+    } else {
+      delete owner.cache[change.key];
+      owner.disposers.delete(change.key);
+    }
+  }
+  // block proxies drop their cached units
+  container.revision.value++;
+
+  const rebuilding = new Map<UnitChange, Promise<unknown>>();
+  for (const change of rebuilt) {
+    const def = container.definitions[change.key] as Factory<unknown>;
+    rebuilding.set(change, resolveAsyncUnit(container, change.key, def));
+  }
+
+  for (const change of changes) {
+    const notify = () =>
+      container.changeListeners.forEach((listener) => listener(change));
+    const rebuilt = rebuilding.get(change);
+    if (rebuilt) {
+      rebuilt.then(notify, notify);
+    } else {
+      notify();
+    }
+  }
+
+  await resolveAsyncFactories(container, changedKeys);
+}
+
+/**
+ * Adds definitions to a running app. Returns a promise when they include
+ * async factories, that resolves when they are built
+ */
+function extendContainer(
+  container: Container,
+  extension: Hashmap,
+): Promise<void> | undefined {
+  assertNotDisposed(container);
+  const defs = selectProfiles(
+    extension,
+    container.profile,
+    container.activeProfiles,
+  );
+  const collisions = Object.keys(defs)
+    .filter((key) => key in container.definitions)
+    .map((key) => ({
+      key,
+      blocks: ["app", `"${blockNames.get(extension) ?? "extension"}"`],
+    }));
+  if (collisions.length) throw new KeyCollisionError(collisions);
+
+  const definitions = Object.assign({}, container.definitions, defs);
+  assertValidKeys(definitions);
+  assertContracts(definitions);
+
+  Object.assign(container.definitions, defs);
+  container.blockPaths.push(...getBlockPaths(defs));
+  getHiddenUnits(definitions).forEach((block, key) => {
+    container.hidden.set(key, block);
+  });
+  getLazyBlocks(defs).forEach((lazy, block) => {
+    container.lazyBlocks.set(block, lazy);
+  });
+  recordMounts(extension);
+  container.revision.value++;
+
+  if (hasAsyncKeys(defs)) {
+    return resolveAsyncFactories(container, Object.keys(defs));
+  }
+}
+
+function createScopeInjector<Defs extends Hashmap>(
+  container: Container,
+): Scope<Defs> {
+  const injector = generateInjector<Defs, "">("", () => container);
+  claimInjector(container, "", injector);
+
+  return Object.assign(injector, {
+    dispose: () => disposeContainer(container),
+    [disposeSymbol]: () => disposeContainerSync(container),
+    [asyncDisposeSymbol]: () => disposeContainer(container),
+  });
+}
+
+/**
+ * Error thrown when more than one unit fails to be disposed
+ */
+export class DisposeError extends Error {
+  errors: unknown[];
+
+  constructor(errors: unknown[]) {
+    super(`${errors.length} units failed to be disposed.`);
+    this.name = "DisposeError";
+    this.errors = errors;
+  }
+}
+
+/** Marks the container as disposed and returns its disposers in reverse order */
+function takeDisposers(container: Container): Disposer[] {
+  const disposers = Array.from(container.disposers.values()).reverse();
+  container.disposers.clear();
+  container.disposed = true;
+  container.cache = {};
+  container.proxies.clear();
+  return disposers;
+}
+
+function throwDisposeErrors(errors: unknown[]): void {
+  if (errors.length === 1) throw errors[0];
+  if (errors.length > 1) throw new DisposeError(errors);
+}
+
+async function disposeContainer(container: Container): Promise<void> {
+  const errors: unknown[] = [];
+  // scoped units may use the singletons, so the scopes go first
+  for (const scope of getLiveScopes(container).reverse()) {
+    try {
+      await disposeContainer(scope);
+    } catch (e) {
+      errors.push(e);
+    }
+  }
+  for (const disposer of takeDisposers(container)) {
+    try {
+      await disposer();
+    } catch (e) {
+      errors.push(e);
+    }
+  }
+  throwDisposeErrors(errors);
+}
+
+/**
+ * Like disposeContainer, but it can not await async disposers. It still runs
+ * them, and throws afterwards so they are disposed with `await using`
+ */
+function disposeContainerSync(container: Container): void {
+  const errors: unknown[] = [];
+  for (const scope of getLiveScopes(container).reverse()) {
+    try {
+      disposeContainerSync(scope);
+    } catch (e) {
+      errors.push(e);
+    }
+  }
+  let hasAsyncDisposers = false;
+  for (const disposer of takeDisposers(container)) {
+    try {
+      const result = disposer();
+      if (isPromise(result)) {
+        hasAsyncDisposers = true;
+        // reported by the error below instead of an unhandled rejection
+        result.catch(() => undefined);
+      }
+    } catch (e) {
+      errors.push(e);
+    }
+  }
+  if (hasAsyncDisposers) {
+    errors.push(
+      new Error(
+        "Some units have async disposers that `Symbol.dispose` can not " +
+          "await. Use `await using` or `dispose()` instead.",
+      ),
+    );
+  }
+  throwDisposeErrors(errors);
+}
+
+/** Registers the teardown of a unit created by a factory */
+function trackDisposable(
+  container: Container,
+  key: string,
+  factory: Factory<unknown>,
+  unit: unknown,
+): void {
+  // the teardown of a previous instance is left to the change listeners
+  container.disposers.delete(key);
+  const disposer = getDisposer(factory, unit);
+  if (disposer) container.disposers.set(key, disposer);
+}
+
+/** Teardown function of a unit created by a factory, if it has any */
+function getDisposer(
+  factory: Factory<unknown>,
+  unit: unknown,
+): Disposer | undefined {
+  const onDispose = factory.onDispose;
+  if (onDispose) return () => onDispose(unit);
+  if (hasMethod(unit, asyncDisposeSymbol)) {
+    return () => unit[asyncDisposeSymbol]();
+  }
+  if (hasMethod(unit, disposeSymbol)) return () => unit[disposeSymbol]();
+}
+
+function hasMethod<K extends PropertyKey>(
+  value: unknown,
+  key: K,
+): value is Record<K, () => unknown> {
+  return (
+    (typeof value === "object" || typeof value === "function") &&
+    value !== null &&
+    key in value &&
+    typeof (value as Record<K, unknown>)[key] === "function"
+  );
+}
+
+/**
+ * Extract the paths of the blocks with units of a hashmap
+ *
+ * BlockPaths<{
+ *   a: 1,
+ *   "b.c": 2,
+ *   "b.d": 3,
+ *   "b.e.f.other": 3,
+ * }> // "b" | "b.e.f":
+ */
+type BlockPaths<L extends Hashmap> = {
+  [K in keyof L]: ExtractBlockPath<Extract<K, string>>;
+}[keyof L];
+
+/** Extract keys with no dots in them */
+type NoDots<T extends string> = T extends `${string}.${string}` ? never : T;
+
+/**
+ * Extracts the path of a block from a unit path.
+ * Returns never if the path does not contain dots.
+ *
+ * ExtractBlockPath<"a.b.c.d">; // "a.b.c"
+ * ExtractBlockPath<"a.b.d">; // "a.b"
+ * ExtractBlockPath<"a">; // never
+ */
+type ExtractBlockPath<T extends string> = T extends `${infer S}.${infer C}`
+  ? C extends NoDots<C>
+    ? S
+    : `${S}.${ExtractBlockPath<C>}`
+  : never;
+
+/** Extracts the paths of blocks from a hashmap of definitions into an array */
+function getBlockPaths<L extends Hashmap>(defs: L): BlockPaths<L>[] {
+  return Object.keys(defs)
+    .filter((key) => key.split(".").length > 1)
+    .map((key) => {
+      const parts = key.split(".");
+      return parts
+        .slice(0, parts.length - 1)
+        .join(".") as BlockPaths<L>[][number];
+    });
+}
+
+/** Check if any of the definitions are async factories */
+function hasAsyncKeys(list: Hashmap): boolean {
+  return Object.keys(list).some((key) => isAsyncFactory(list[key]));
+}
+
+/**
+ * Error thrown by `wireApp` when some factories fail to resolve
+ */
+export class StartupError extends Error {
+  failures: { key: string; error: unknown }[];
+
+  constructor(failures: { key: string; error: unknown }[]) {
+    const list = failures
+      .map(({ key, error }) => {
+        const cause =
+          error instanceof FactoryFailedError && error.key === key
+            ? error.cause
+            : error;
+        return `- ${key}: ${getErrorMessage(cause)}`;
+      })
+      .join("\n");
+    super(`${failures.length} units failed to resolve:\n${list}`);
+    this.name = "StartupError";
+    this.failures = failures;
+  }
+}
+
+function getErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Resolves the async singleton factories of `keys` concurrently. The units
+ * they inject are built on the spot, and the async ones that are not ready
+ * yet are injected as the promise of their unit
+ */
+async function resolveAsyncFactories(
+  container: Container,
+  keys = Object.keys(container.definitions),
+): Promise<void> {
+  const asyncKeys = keys.filter((key) => {
+    const def = container.definitions[key];
+    return (
+      isAsyncFactory(def) &&
+      getLifetime(def as Factory<unknown>) === "singleton" &&
+      (!(key in container.cache) || container.pending.has(key))
+    );
+  });
+
+  const failures: { key: string; error: unknown }[] = [];
+  await Promise.all(
+    asyncKeys.map(async (key) => {
+      try {
+        await (container.pending.get(key) ??
+          (container.observers.size
+            ? resolveObserved(container, key)
+            : resolveUnit(container, key)));
+      } catch (error) {
+        failures.push({ key, error });
+      }
+    }),
+  );
+
+  if (failures.length) {
+    failures.sort(
+      (a, b) => asyncKeys.indexOf(a.key) - asyncKeys.indexOf(b.key),
+    );
+    throw new StartupError(failures);
+  }
+}
+
+/**
+ * Runs an async factory and caches its unit once it resolves. Until then,
+ * the promise is injected to the units that need it
+ */
+function resolveAsyncUnit(
+  container: Container,
+  key: string,
+  factory: Factory<unknown>,
+): Promise<unknown> {
+  let unit: unknown;
+  try {
+    unit = isPromise(factory) ? factory : buildUnit(container, key, factory);
+  } catch (error) {
+    unit = Promise.reject(error);
+  }
+
+  const promise: Promise<unknown> = withTimeout(
+    unit,
+    factory.timeout,
+    key,
+  ).then(
+    async (value) => {
+      if (container.disposed) {
+        // resolved after the app was disposed, nothing else tears it down
+        container.pending.delete(key);
+        await getDisposer(factory, value)?.();
+      } else if (container.pending.get(key) === promise) {
+        container.pending.delete(key);
+        container.failed.delete(key);
+        // block proxies drop the instance that was served until now
+        if (key in container.cache) container.revision.value++;
+        container.cache[key] = value;
+        trackDisposable(container, key, factory, value);
+      }
+      return value;
+    },
+    (error) => {
+      if (container.pending.get(key) === promise) {
+        container.pending.delete(key);
+        container.failed.set(key, error);
+        if (key in container.cache) {
+          delete container.cache[key];
+          container.disposers.delete(key);
+          container.revision.value++;
+        }
+      }
+      throw error;
+    },
+  );
+  container.pending.set(key, promise);
+  return promise;
+}
+
+/** Rejects if `value` takes longer than `ms` milliseconds to resolve */
+function withTimeout<T>(
+  value: T | Promise<T>,
+  ms: number | undefined,
+  key: string,
+  subject = `Factory "${key}"`,
+): Promise<T> {
+  if (ms === undefined) return Promise.resolve(value);
+
+  return new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      reject(new Error(`${subject} timed out after ${ms}ms.`));
+    }, ms);
+    Promise.resolve(value)
+      .then(resolve, reject)
+      .finally(() => clearTimeout(timer));
+  });
+}
+
+/** Get the same hashmap `L`, but with all keys prefixed by `P` */
+type PrefixedHashmap<Prefix extends string, H extends Hashmap> = {
+  [K in keyof H as `${Prefix}.${Extract<K, string>}`]: H[K];
+};
+
+declare const hiddenIn: unique symbol;
+
+/**
+ * Brand of the units that are not exported by their block. It stores the key
+ * of the unit relative to the block that hides it, so it survives prefixing
+ */
+type HiddenUnit<T, RelativeKey extends string> = T & {
+  readonly [hiddenIn]?: RelativeKey;
+};
+
+/** Key of a hidden unit relative to the block that hides it, or never */
+type HiddenKeyOf<V> = typeof hiddenIn extends keyof V
+  ? Extract<V[typeof hiddenIn & keyof V], string>
+  : never;
+
+/** Names of the units and sub-blocks of a hashmap of definitions */
+type ExportableName<L extends Hashmap> = {
+  [K in keyof L]: K extends `${infer Name}.${string}` ? Name : K;
+}[keyof L] &
+  string;
+
+/**
+ * Get the same hashmap `L`, but with the units that are not in `E` branded
+ * as hidden. Units already hidden by a nested block keep their brand
+ */
+type ExportedHashmap<L extends Hashmap, E extends string> = {
+  [K in keyof L]: K extends E | `${E}.${string}`
+    ? L[K]
+    : [HiddenKeyOf<L[K]>] extends [never]
+      ? HiddenUnit<L[K], Extract<K, string>>
+      : L[K];
+};
+
+declare const requiredBy: unique symbol;
+
+/**
+ * Units defined outside of a block that it requires, with their types.
+ * Create it with `defineContract`
+ */
+interface Contract<C extends Hashmap> {
+  keys: string[];
+  readonly [requiredBy]?: C;
+}
+
+/** Brand of the units of a block that requires the contract `C` */
+type RequiringUnit<T, C extends Hashmap> = T & { readonly [requiredBy]?: C };
+
+/** Get the same hashmap `L`, but with its units branded with the contract */
+type RequiringHashmap<L extends Hashmap, C extends Hashmap> = [C] extends [
+  never,
+]
+  ? L
+  : { [K in keyof L]: RequiringUnit<L[K], C> };
+
+/** Contracts required by a unit, or never */
+type ContractOf<V> = typeof requiredBy extends keyof V
+  ? Extract<V[typeof requiredBy & keyof V], Hashmap>
+  : never;
+
+/** Keys of the contract `C` that are missing or have another type in `Defs` */
+type UnmetKeys<Defs extends Hashmap, C> = C extends Hashmap
+  ? {
+      [K in keyof C]: K extends keyof Defs
+        ? InferUnitValue<Defs[K]> extends C[K]
+          ? never
+          : K
+        : K;
+    }[keyof C]
+  : never;
+
+/**
+ * Resolves to `unknown` when `Defs` satisfies the contracts of its blocks,
+ * and to an object that names the unmet units otherwise
+ */
+type SatisfiedContracts<Defs extends Hashmap> = [
+  {
+    [K in keyof Defs]: UnmetKeys<Defs, ContractOf<Defs[K]>>;
+  }[keyof Defs],
+] extends [never]
+  ? unknown
+  : {
+      unmetContractUnits: {
+        [K in keyof Defs]: UnmetKeys<Defs, ContractOf<Defs[K]>>;
+      }[keyof Defs];
+    };
+
+/**
+ * Defines the contract of a block: the units it requires from the rest of
+ * the app, by their full path. Pass it to `createBlock` as `requires` and
+ * type the injectors of the block with `C`.
+ *
+ * @param keys - Object with every key of the contract set to `true`
+ * @returns The contract, checked by `wireApp` at compile time and at runtime
+ * @example
+ * import { createBlock, createInject, defineContract } from "wiremap";
+ *
+ * type UserContract = {
+ *   db: Database;
+ *   "post.service.getPosts": (userId: string) => Post[];
+ * };
+ * const inject = createInject<UserContract>();
+ *
+ * export default createBlock("user", userService, {
+ *   requires: defineContract<UserContract>({
+ *     db: true,
+ *     "post.service.getPosts": true,
+ *   }),
+ * });
+ */
+export function defineContract<C extends Hashmap>(keys: {
+  [K in keyof C]: true;
+}): Contract<C> {
+  return { keys: Object.keys(keys) };
+}
+
+interface BlockOptions<E extends string, C extends Hashmap> {
+  /**
+   * Names of the units and sub-blocks that are visible from other blocks.
+   * The rest are only visible from the block and its sub-blocks
+   */
+  exports?: readonly E[];
+  /** Units that the app must define for the block to work */
+  requires?: Contract<C>;
+}
+
+/**
+ * Descriptions of the symbols that store the metadata of the blocks in the
+ * definitions, one symbol per block, so it is kept when blocks are spread
+ */
+const hiddenDescription = "wiremap.hidden";
+const contractDescription = "wiremap.contract";
+const lazyDescription = "wiremap.lazy";
+const mountDescription = "wiremap.mount";
+
+/** Units hidden by an export list, mapped to their key relative to the block */
+type HiddenKeys = Record<string, string>;
+
+/** Contract of a block and the path of that block */
+interface BlockContract {
+  block: string;
+  keys: string[];
+}
+
+function getMetadataSymbols(units: Hashmap, description: string): symbol[] {
+  return Object.getOwnPropertySymbols(units).filter(
+    (symbol) => symbol.description === description,
+  );
+}
+
+function getMetadata<T>(units: Hashmap, symbol: symbol): T {
+  return (units as Record<symbol, T>)[symbol];
+}
+
+function setMetadata(units: Hashmap, symbol: symbol, value: unknown): void {
+  (units as Record<symbol, unknown>)[symbol] = value;
+}
+
+/** Maps the keys of the hidden units to the block that hides them */
+function getHiddenUnits(defs: Hashmap): Map<string, string> {
+  const hidden = new Map<string, string>();
+  for (const symbol of getMetadataSymbols(defs, hiddenDescription)) {
+    const keys = getMetadata<HiddenKeys>(defs, symbol);
+    for (const key in keys) {
+      const block = key.slice(0, -(keys[key].length + 1));
+      const current = hidden.get(key);
+      // nested export lists are narrower
+      if (current === undefined || block.length > current.length) {
+        hidden.set(key, block);
+      }
+    }
+  }
+  return hidden;
+}
+
+/** Returns the block that hides `key` from the block `parent`, if any */
+function getHidingBlock(
+  container: Container,
+  key: string,
+  parent: string,
+): string | undefined {
+  const block = container.hidden.get(key);
+  if (block === undefined) return;
+  if (parent === block || parent.startsWith(`${block}.`)) return;
+  return block;
+}
+
+/**
+ * Creates a namespaced block of units with a common prefix.
+ *
+ * @param name - The namespace prefix for all units in the block
+ * @param units - Object containing unit definitions to be namespaced
+ * @param options - Names of the units and sub-blocks exported by the block, and the contract it requires
+ * @returns Object with all units prefixed with the namespace
+ * @example
+ * // userModule.ts
+ * import { createBlock } from "wiremap";
+ * import * as userService from "./userService";
+ * import * as userRepo from "./userRepo";
+ *
+ * // create and export the user block containing two more blocks:
+ * // user.service and user.repo. Only user.service is visible from other
+ * // blocks
+ * export default createBlock(
+ *   "user",
+ *   {
+ *     ...createBlock("service", userService),
+ *     ...createBlock("repo", userRepo),
+ *   },
+ *   { exports: ["service"] },
+ * );
+ *
+ * // mount a reusable block created with `defineBlock`, passing its params
+ * createBlock("repo", crudRepo, { table: "users" });
+ */
+export function createBlock<Params, L extends Hashmap, Prefix extends string>(
+  name: Prefix,
+  definition: BlockDefinition<Params, L>,
+  params: Params,
+): PrefixedHashmap<Prefix, L>;
+export function createBlock<
+  L extends Hashmap,
+  Prefix extends string,
+  E extends ExportableName<L> = ExportableName<L>,
+  C extends Hashmap = never,
+>(
+  name: Prefix,
+  units: L,
+  options: BlockOptions<E, C>,
+): PrefixedHashmap<Prefix, RequiringHashmap<ExportedHashmap<L, E>, C>>;
+export function createBlock<L extends Hashmap, Prefix extends string>(
+  name: Prefix,
+  units: L,
+): PrefixedHashmap<Prefix, L>;
+export function createBlock(
+  name: string,
+  unitsOrDefinition: Hashmap | BlockDefinition<unknown, Hashmap>,
+  paramsOrOptions?: unknown,
+): Hashmap {
+  const isDefinition = isBlockDefinition(unitsOrDefinition);
+  const units = isDefinition
+    ? mountBlock(name, unitsOrDefinition, paramsOrOptions)
+    : isProfiled(unitsOrDefinition)
+      ? splitProfiledBlock(unitsOrDefinition)
+      : unitsOrDefinition;
+  const options = isDefinition
+    ? {}
+    : ((paramsOrOptions ?? {}) as BlockOptions<string, Hashmap>);
+
+  const result: Hashmap = {};
+  const hiddenKeys: HiddenKeys = {};
+  for (const key in units) {
+    if (Object.prototype.hasOwnProperty.call(units, key)) {
+      result[`${name}.${key}`] = units[key];
+      if (options.exports && !options.exports.includes(key.split(".")[0])) {
+        hiddenKeys[`${name}.${key}`] = key;
+      }
+    }
+  }
+
+  // keep the metadata of the nested blocks, prefixed
+  for (const symbol of getMetadataSymbols(units, hiddenDescription)) {
+    const keys = getMetadata<HiddenKeys>(units, symbol);
+    const prefixed: HiddenKeys = {};
+    for (const key in keys) {
+      prefixed[`${name}.${key}`] = keys[key];
+    }
+    setMetadata(result, symbol, prefixed);
+  }
+  for (const description of [
+    contractDescription,
+    lazyDescription,
+    mountDescription,
+  ]) {
+    for (const symbol of getMetadataSymbols(units, description)) {
+      const metadata = getMetadata<{ block: string }>(units, symbol);
+      setMetadata(result, symbol, {
+        ...metadata,
+        block: metadata.block === "" ? name : `${name}.${metadata.block}`,
+      });
+    }
+  }
+
+  if (options.exports) {
+    setMetadata(result, Symbol(hiddenDescription), hiddenKeys);
+  }
+  if (options.requires) {
+    const contract: BlockContract = {
+      block: name,
+      keys: options.requires.keys,
+    };
+    setMetadata(result, Symbol(contractDescription), contract);
+  }
+  blockNames.set(result, name);
+  return result;
+}
+
+declare const lazyUnit: unique symbol;
+
+/** Get the same hashmap `L`, but with its units branded as lazy */
+type LazyHashmap<L extends Hashmap> = {
+  [K in keyof L]: L[K] & { readonly [lazyUnit]?: true };
+};
+
+type IsLazyUnit<V> = typeof lazyUnit extends keyof V ? true : false;
+
+/** Whether the block `N` belongs to a lazy block */
+type IsLazyBlock<L extends Hashmap, N extends string> = true extends {
+  [K in keyof L]: K extends `${N}.${string}` ? IsLazyUnit<L[K]> : never;
+}[keyof L]
+  ? true
+  : false;
+
+/** A block that is loaded the first time it is injected */
+interface LazyBlock {
+  /** Path of the block */
+  block: string;
+  load: () => Promise<Hashmap>;
+  loading?: Promise<void>;
+}
+
+/**
+ * Creates a block whose units are loaded the first time an injector resolves
+ * it or any of its sub-blocks, which returns a promise of the block proxy.
+ * Use it to split large and rarely used parts of an app.
+ *
+ * @param name - The namespace prefix for all units in the block
+ * @param load - Function that returns a promise of the units of the block, like a dynamic import
+ * @returns Object to spread into the definitions of the app or of a block
+ * @example
+ * import { createLazyBlock, wireApp } from "wiremap";
+ *
+ * const app = wireApp({
+ *   ...createLazyBlock("admin", () => import("./admin/mod.ts")),
+ * });
+ *
+ * // the module is imported here
+ * const admin = await app("admin");
+ */
+export function createLazyBlock<L extends Hashmap, Prefix extends string>(
+  name: Prefix,
+  load: () => Promise<L>,
+): PrefixedHashmap<Prefix, LazyHashmap<L>> {
+  const lazy: LazyBlock = { block: name, load };
+  const result: Hashmap = {};
+  setMetadata(result, Symbol(lazyDescription), lazy);
+  return result as PrefixedHashmap<Prefix, LazyHashmap<L>>;
+}
+
+function getLazyBlocks(defs: Hashmap): Map<string, LazyBlock> {
+  const lazyBlocks = new Map<string, LazyBlock>();
+  for (const symbol of getMetadataSymbols(defs, lazyDescription)) {
+    const lazy = getMetadata<LazyBlock>(defs, symbol);
+    lazyBlocks.set(lazy.block, lazy);
+  }
+  return lazyBlocks;
+}
+
+/** Returns the lazy block that `block` belongs to, if it is not loaded yet */
+function findLazyBlock(
+  container: Container,
+  block: string,
+): LazyBlock | undefined {
+  for (const lazy of container.lazyBlocks.values()) {
+    if (block === lazy.block || block.startsWith(`${lazy.block}.`)) {
+      return lazy;
+    }
+  }
+}
+
+/** Loads the units of a lazy block into the app, only once */
+function loadLazyBlock(container: Container, lazy: LazyBlock): Promise<void> {
+  const app = container.parent ?? container;
+  lazy.loading ??= lazy
+    .load()
+    .then((units) => extendContainer(app, createBlock(lazy.block, units)));
+  return lazy.loading;
+}
+
+/** Alternatives of a unit, or of the units of a block, by profile */
+interface ProfiledUnit {
+  isProfiled: true;
+  alternatives: Hashmap;
+}
+
+/** Requires every alternative to have the same type */
+type SameAlternatives<A extends Hashmap> = {
+  [K in keyof A]: [A[keyof A]] extends [A[K]]
+    ? A[K]
+    : "all the alternatives must have the same type";
+};
+
+function isProfiled(value: unknown): value is ProfiledUnit {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    "isProfiled" in value &&
+    value.isProfiled === true
+  );
+}
+
+/**
+ * Defines alternative implementations of a unit, or of the units of a block
+ * when passed to `createBlock`, by profile. `wireApp` selects the one of its
+ * `profile` option, or the `default` one. Every alternative must have the
+ * same type.
+ *
+ * @param alternatives - Implementations of the unit, indexed by profile
+ * @returns Definition of the unit, typed as any of its alternatives
+ * @throws ProfileNotFoundError when wiring an app with a profile that has no alternative and there is no default
+ * @example
+ * import { createBlock, wireApp, withProfiles } from "wiremap";
+ *
+ * const units = {
+ *   ...createBlock(
+ *     "user.repo",
+ *     withProfiles({ test: memoryRepo, default: postgresRepo }),
+ *   ),
+ *   mailer: withProfiles({ test: fakeMailer, default: smtpMailer }),
+ * };
+ *
+ * const app = wireApp(units, { profile: "test" });
+ */
+export function withProfiles<A extends Hashmap>(
+  alternatives: A & SameAlternatives<A>,
+): A[keyof A] {
+  const unit: ProfiledUnit = { isProfiled: true, alternatives };
+  return unit as A[keyof A];
+}
+
+/** Splits the alternatives of a block into alternatives of its units */
+function splitProfiledBlock(block: ProfiledUnit): Hashmap {
+  const units: Record<string, ProfiledUnit> = {};
+  for (const [profile, alternative] of Object.entries(block.alternatives)) {
+    for (const [key, unit] of Object.entries(alternative as Hashmap)) {
+      units[key] ??= { isProfiled: true, alternatives: {} };
+      units[key].alternatives[profile] = unit;
+    }
+  }
+  return units;
+}
+
+/**
+ * Error thrown when a unit has no alternative for the profile of the app,
+ * nor a default one
+ */
+export class ProfileNotFoundError extends Error {
+  /** Full path of the unit */
+  key: string;
+  profile?: string;
+  /** Profiles of the alternatives of the unit */
+  profiles: string[];
+
+  constructor(key: string, profile: string | undefined, profiles: string[]) {
+    super(
+      `Unit "${key}" has no alternative for ${
+        profile === undefined ? "the default profile" : `profile "${profile}"`
+      }. Available profiles: ${profiles.join(", ")}`,
+    );
+    this.name = "ProfileNotFoundError";
+    this.key = key;
+    this.profile = profile;
+    this.profiles = profiles;
+  }
+}
+
+/**
+ * Replaces the units with alternatives by the one of `profile`, recording it
+ * in `activeProfiles`
+ */
+function selectProfiles(
+  defs: Hashmap,
+  profile: string | undefined,
+  activeProfiles: Map<string, string>,
+): Hashmap {
+  const selected = { ...defs };
+  for (const key of Object.keys(defs)) {
+    const def = defs[key];
+    if (!isProfiled(def)) continue;
+
+    const { alternatives } = def;
+    const name =
+      profile !== undefined && profile in alternatives ? profile : "default";
+    if (!(name in alternatives)) {
+      throw new ProfileNotFoundError(key, profile, Object.keys(alternatives));
+    }
+    selected[key] = alternatives[name];
+    activeProfiles.set(key, name);
+  }
+  return selected;
+}
+
+/** Names of the blocks returned by `createBlock`, to report collisions */
+const blockNames = new WeakMap<Hashmap, string>();
+
+/** Keys defined in more than one of the hashmaps of the tuple `T` */
+type DuplicateKeys<T extends Hashmap[]> = T extends [
+  infer Head,
+  ...infer Rest extends Hashmap[],
+]
+  ? (keyof Head & KeysOf<Rest>) | DuplicateKeys<Rest>
+  : never;
+
+type KeysOf<T extends Hashmap[]> = T extends [
+  infer Head,
+  ...infer Rest extends Hashmap[],
+]
+  ? keyof Head | KeysOf<Rest>
+  : never;
+
+/** Merges the hashmaps of the tuple `T` */
+type Composed<T extends Hashmap[]> = T extends [
+  infer Head,
+  ...infer Rest extends Hashmap[],
+]
+  ? Head & Composed<Rest>
+  : unknown;
+
+/** Marks the duplicate keys of every block with a conflicting type */
+type WithoutDuplicates<T extends Hashmap[]> = {
+  [I in keyof T]: T[I] & {
+    [K in DuplicateKeys<T> & keyof T[I]]: "duplicate key";
+  };
+};
+
+/**
+ * Error thrown when two blocks composed with `composeBlocks` define the same
+ * key
+ */
+export class KeyCollisionError extends Error {
+  /**
+   * Colliding keys, with the names of the blocks that define them, or their
+   * position in the arguments when they are not blocks
+   */
+  collisions: { key: string; blocks: string[] }[];
+
+  constructor(collisions: { key: string; blocks: string[] }[]) {
+    super(
+      `Keys defined by more than one block:\n` +
+        collisions
+          .map(({ key, blocks }) => `- "${key}" in ${blocks.join(", ")}`)
+          .join("\n"),
+    );
+    this.name = "KeyCollisionError";
+    this.collisions = collisions;
+  }
+}
+
+/**
+ * Composes blocks and units into a single hashmap, like spreading them, but
+ * failing when two of them define the same key, at compile time and at
+ * runtime.
+ *
+ * @param blocks - Blocks created with `createBlock`, or hashmaps of units
+ * @returns Object with the units of every block
+ * @throws KeyCollisionError when a key is defined more than once
+ * @throws InvalidKeyError when a key is malformed
+ * @example
+ * import { composeBlocks, wireApp } from "wiremap";
  *
- * ExtractBlockPath<"a.b.c.d">; // "a.b.c"
- * ExtractBlockPath<"a.b.d">; // "a.b"
- * ExtractBlockPath<"a">; // never
+ * const units = composeBlocks(
+ *   { config: { port: 3000 } },
+ *   createBlock("user", userService),
+ *   createBlock("post", postService),
+ * );
+ * const app = wireApp(units);
  */
-type ExtractBlockPath<T extends string> = T extends `${infer S}.${infer C}`
-  ? C extends NoDots<C>
-    ? S
-    : `${S}.${ExtractBlockPath<C>}`
-  : never;
+export function composeBlocks<T extends Hashmap[]>(
+  ...blocks: WithoutDuplicates<T>
+): Composed<T> {
+  const sources = new Map<string, string[]>();
+  (blocks as Hashmap[]).forEach((block, index) => {
+    const name = blockNames.get(block);
+    const source = name === undefined ? `#${index}` : `"${name}"`;
+    for (const key of Object.keys(block)) {
+      sources.set(key, [...(sources.get(key) ?? []), source]);
+    }
+  });
 
-/** Extracts the paths of blocks from a hashmap of definitions into an array */
-function getBlockPaths<L extends Hashmap>(defs: L): BlockPaths<L>[] {
-  return Object.keys(defs)
-    .filter((key) => key.split(".").length > 1)
-    .map((key) => {
-      const parts = key.split(".");
-      return parts
-        .slice(0, parts.length - 1)
-        .join(".") as BlockPaths<L>[][number];
-    });
+  const collisions = Array.from(sources)
+    .filter(([, blocks]) => blocks.length > 1)
+    .map(([key, blocks]) => ({ key, blocks }));
+  if (collisions.length) throw new KeyCollisionError(collisions);
+
+  const composed = Object.assign({}, ...blocks);
+  assertValidKeys(composed);
+  return composed;
 }
 
-/** Check if any of the definitions are async factories */
-function hasAsyncKeys(list: Hashmap): boolean {
-  return Object.keys(list).some((key) => isAsyncFactory(list[key]));
+/**
+ * Error thrown when the keys of the definitions are malformed, or a unit is
+ * named like a block
+ */
+export class InvalidKeyError extends Error {
+  invalidKeys: { key: string; reason: string }[];
+
+  constructor(invalidKeys: { key: string; reason: string }[]) {
+    super(
+      `Invalid keys in definitions:\n` +
+        invalidKeys
+          .map(({ key, reason }) => `- "${key}": ${reason}`)
+          .join("\n"),
+    );
+    this.name = "InvalidKeyError";
+    this.invalidKeys = invalidKeys;
+  }
 }
 
-async function resolveAsyncFactories(): Promise<void> {
-  const keys = Object.keys(unitDefinitions);
+function assertValidKeys(defs: Hashmap): void {
+  const keys = Object.keys(defs);
+  // every ancestor of a key is a block, not only its closest one
+  const blockPaths = new Set<string>();
+  for (const key of keys) {
+    const segments = key.split(".");
+    for (let end = 1; end < segments.length; end++) {
+      blockPaths.add(segments.slice(0, end).join("."));
+    }
+  }
+  const invalidKeys: { key: string; reason: string }[] = [];
 
-  for await (const key of keys) {
-    const unitDef = unitDefinitions[key];
-    if ((isFunction(unitDef) || isPromise(unitDef)) && isFactory(unitDef)) {
-      unitCache[key] = await unitDef();
+  for (const key of keys) {
+    if (key.split(".").some((segment) => segment === "")) {
+      invalidKeys.push({
+        key,
+        reason: "keys can not have empty segments or start or end with a dot",
+      });
+    } else if (blockPaths.has(key)) {
+      invalidKeys.push({
+        key,
+        reason: `it is a unit and the path of block "${key}"`,
+      });
     }
   }
+  if (invalidKeys.length) throw new InvalidKeyError(invalidKeys);
 }
 
-/** Get the same hashmap `L`, but with all keys prefixed by `P` */
-type PrefixedHashmap<Prefix extends string, H extends Hashmap> = {
-  [K in keyof H as `${Prefix}.${Extract<K, string>}`]: H[K];
-};
+/** Context received by the reusable blocks created with `defineBlock` */
+interface Mount<Params> {
+  /** Name given to the block by `createBlock` */
+  name: string;
+  params: Params;
+  /** Full path where the block is mounted, known once the app is wired */
+  path(): string;
+  /**
+   * Resolves the block where the units are mounted, or a block relative to
+   * it like `".."`, `"../repo"` or `"./cache"`. Pass the type of the block
+   * definition, like `typeof crudRepo`, or of the units of the block to type
+   * the proxy
+   */
+  inject<T = Hashmap>(path?: "" | RelativePath): MountedUnits<T>;
+}
+
+/** Units injected by `mount.inject`, typed from a block definition or units */
+type MountedUnits<T> =
+  T extends BlockDefinition<never, infer L>
+    ? { [K in keyof L]: InferUnitValue<L[K]> }
+    : { [K in keyof T]: InferUnitValue<T[K]> };
+
+interface BlockDefinition<Params, L extends Hashmap> {
+  (mount: Mount<Params>): L;
+  isBlockDefinition: true;
+}
+
+/** Turns the builder of the units of a block into a block definition */
+interface BlockBuilder<Params> {
+  <L extends Hashmap>(
+    build: (mount: Mount<Params>) => L,
+  ): BlockDefinition<Params, L>;
+}
+
+function isBlockDefinition(
+  value: unknown,
+): value is BlockDefinition<unknown, Hashmap> {
+  return (
+    isFunction(value) &&
+    "isBlockDefinition" in value &&
+    value.isBlockDefinition === true
+  );
+}
 
 /**
- * Creates a namespaced block of units with a common prefix.
+ * Defines a reusable block that can be mounted more than once with
+ * `createBlock`, for example as `user.repo` and `post.repo`. Every mount
+ * builds new units with its own params, and their injections resolve
+ * relative to wherever the block was mounted.
  *
- * @param name - The namespace prefix for all units in the block
- * @param units - Object containing unit definitions to be namespaced
- * @returns Object with all units prefixed with the namespace
+ * @returns Function that takes the builder of the units, which receives the mount context, and returns a block definition to pass to `createBlock` with its params
  * @example
- * // userModule.ts
- * import { createBlock } from "wiremap";
- * import * as userService from "./userService";
- * import * as userRepo from "./userRepo";
+ * import { createBlock, defineBlock } from "wiremap";
  *
- * // create and export the user block containing two more blocks:
- * // user.service and user.repo
- * export default createBlock("user", {
- *   ...createBlock("service", userService),
- *   ...createBlock("repo", userRepo),
- * });
+ * export const crudRepo = defineBlock<{ table: string }>()((mount) => ({
+ *   findAll: () => db.query(`SELECT * FROM ${mount.params.table}`),
+ *   count: () => mount.inject<typeof crudRepo>().findAll().length,
+ * }));
+ *
+ * const units = {
+ *   ...createBlock("user", {
+ *     ...createBlock("repo", crudRepo, { table: "users" }),
+ *   }),
+ *   ...createBlock("post", {
+ *     ...createBlock("repo", crudRepo, { table: "posts" }),
+ *   }),
+ * };
  */
-export function createBlock<L extends Hashmap, Prefix extends string>(
-  name: Prefix,
-  units: L,
-): PrefixedHashmap<Prefix, L> {
-  const result: Hashmap = {};
-  for (const key in units) {
-    if (Object.prototype.hasOwnProperty.call(units, key)) {
-      result[`${name}.${key}`] = units[key];
+export function defineBlock<Params = void>(): BlockBuilder<Params> {
+  return function <L extends Hashmap>(
+    build: (mount: Mount<Params>) => L,
+  ): BlockDefinition<Params, L> {
+    return Object.assign((mount: Mount<Params>) => build(mount), {
+      isBlockDefinition: true as const,
+    });
+  };
+}
+
+/** Mounted block definition and its path, prefixed by `createBlock` */
+interface BlockMount {
+  block: string;
+  /** Records the full path of the block when it is wired */
+  mounted(path: string): void;
+}
+
+/** Builds the units of a block definition for a new mount */
+function mountBlock(
+  name: string,
+  definition: BlockDefinition<unknown, Hashmap>,
+  params: unknown,
+): Hashmap {
+  let mountPath: string | undefined;
+
+  function path(): string {
+    if (mountPath === undefined) {
+      throw new Error(`Block "${name}" is not wired in any app yet.`);
     }
+    return mountPath;
+  }
+
+  const mount: Mount<unknown> = {
+    name,
+    params,
+    path,
+    inject<T>(relativePath: "" | RelativePath = "") {
+      const block = path();
+      const { container } = getCurrentFrame();
+      const target =
+        relativePath === "" ? block : resolveRelativePath(block, relativePath);
+      assertBlockExists(container, block, target);
+      return getBlockProxy(container, block, target) as MountedUnits<T>;
+    },
+  };
+
+  const units = { ...definition(mount) };
+  const metadata: BlockMount = {
+    // prefixed with the name of the block by `createBlock`
+    block: "",
+    mounted(block) {
+      if (mountPath !== undefined && mountPath !== block) {
+        throw new Error(
+          `Block "${name}" is mounted in "${mountPath}" and "${block}". ` +
+            "Call `createBlock` for every mount.",
+        );
+      }
+      mountPath = block;
+    },
+  };
+  setMetadata(units, Symbol(mountDescription), metadata);
+  return units;
+}
+
+/** Tells the mounted blocks of `defs` their full path */
+function recordMounts(defs: Hashmap): void {
+  for (const symbol of getMetadataSymbols(defs, mountDescription)) {
+    const { block, mounted } = getMetadata<BlockMount>(defs, symbol);
+    mounted(block);
   }
-  return result as PrefixedHashmap<Prefix, L>;
 }
 
 interface BlockInjector<L extends Hashmap, P extends string> {
   (): BlockProxy<L, P, "">;
-  <K extends "." | BlockPaths<L>>(key?: K): BlockProxy<L, P, K>;
+  <K extends "." | BlockPaths<L>>(key?: K): InjectedBlock<L, P, K>;
+  <K extends RelativePath>(
+    key: K & ValidRelativePath<L, P, K>,
+  ): InjectedBlock<L, P, ResolveRelativePath<P, K>>;
 }
 
+/** Block paths relative to the namespace of an injector */
+type RelativePath = ".." | `./${string}` | `../${string}`;
+
+/**
+ * Removes the last segment of a block path
+ *
+ * ParentPath<"a.b.c">; // "a.b"
+ * ParentPath<"a">; // ""
+ */
+type ParentPath<P extends string> = P extends `${string}.${string}`
+  ? ExtractBlockPath<P>
+  : "";
+
+type ResolveSegment<P extends string, S extends string> = S extends "."
+  ? P
+  : S extends ".."
+    ? ParentPath<P>
+    : P extends ""
+      ? S
+      : `${P}.${S}`;
+
+/**
+ * Resolves a relative block path against the block `P`
+ *
+ * ResolveRelativePath<"user.service", "../repo">; // "user.repo"
+ * ResolveRelativePath<"user.service", "./cache">; // "user.service.cache"
+ * ResolveRelativePath<"user.service", "..">; // "user"
+ */
+type ResolveRelativePath<
+  P extends string,
+  K extends string,
+> = K extends `${infer Head}/${infer Rest}`
+  ? ResolveRelativePath<ResolveSegment<P, Head>, Rest>
+  : ResolveSegment<P, K>;
+
+/** `unknown` if the relative path points to an existing block, or `never` */
+type ValidRelativePath<L extends Hashmap, P extends string, K extends string> =
+  ResolveRelativePath<P, K> extends BlockPaths<L> | "" ? unknown : never;
+
 type InjectorFactory<L extends Hashmap> = <N extends BlockPaths<L>>(
   namespace: N,
 ) => BlockInjector<L, N>;
@@ -186,58 +2397,604 @@ type InjectorFactory<L extends Hashmap> = <N extends BlockPaths<L>>(
  */
 export function createInjector<L extends Hashmap>(): InjectorFactory<L> {
   return function <N extends BlockPaths<L>>(namespace: N): BlockInjector<L, N> {
-    return generateInjector<L, N>(namespace);
+    return generateInjector<L, N>(namespace, getCurrentContainer);
   };
 }
 
-function generateInjector<Defs extends Hashmap, P extends string>(
-  parent: P,
-): BlockInjector<Defs, P> {
-  if (takenInjectorsKeys.has(parent)) {
-    throw new Error(`Injector for "${parent}" is already in use.`);
+/**
+ * Error thrown when two different injectors are created for the same block
+ */
+export class InjectorAlreadyInUseError extends Error {
+  block: string;
+
+  constructor(block: string) {
+    super(`Injector for "${block}" is already in use.`);
+    this.name = "InjectorAlreadyInUseError";
+    this.block = block;
+  }
+}
+
+/** Registers the injector of a namespace, only one is allowed per app */
+function claimInjector(
+  container: Container,
+  namespace: string,
+  injector: unknown,
+): void {
+  const taken = container.injectors.get(namespace);
+  if (taken === undefined) {
+    container.injectors.set(namespace, injector);
+  } else if (taken !== injector) {
+    throw new InjectorAlreadyInUseError(namespace);
+  }
+}
+
+/**
+ * Error thrown when an injector is asked for a block that does not exist
+ */
+export class BlockNotFoundError extends Error {
+  block: string;
+  /** Block of the injector that asked for the block */
+  requestingBlock: string;
+  suggestions: string[];
+
+  constructor(block: string, requestingBlock: string, suggestions: string[]) {
+    super(
+      `Unit ${block} not found from block "${requestingBlock}"` +
+        formatSuggestions(suggestions),
+    );
+    this.name = "BlockNotFoundError";
+    this.block = block;
+    this.requestingBlock = requestingBlock;
+    this.suggestions = suggestions;
   }
+}
 
-  const localCache: Hashmap = {};
-  takenInjectorsKeys.add(parent);
+function assertNotDisposed(container: Container): void {
+  if (container.disposed || container.parent?.disposed) {
+    throw new Error("The app has been disposed.");
+  }
+}
 
+function generateInjector<Defs extends Hashmap, P extends string>(
+  parent: P,
+  getContainer: () => Container,
+): BlockInjector<Defs, P> {
   function blockInjector(): BlockProxy<Defs, P, "">;
   function blockInjector<K extends "." | BlockPaths<Defs>>(
     blockKey: K,
-  ): BlockProxy<Defs, P, K>;
-  function blockInjector<K extends "." | BlockPaths<Defs>>(
-    blockKey?: K,
-  ): BlockProxy<Defs, P, K extends undefined ? "" : K> {
-    const key = (blockKey ?? "") as K extends undefined ? "" : K;
+  ): InjectedBlock<Defs, P, K>;
+  function blockInjector<K extends RelativePath>(
+    blockKey: K & ValidRelativePath<Defs, P, K>,
+  ): InjectedBlock<Defs, P, ResolveRelativePath<P, K>>;
+  function blockInjector(blockKey?: string): unknown {
+    const container = getContainer();
+    assertNotDisposed(container);
+    claimInjector(container, parent, blockInjector);
+
+    const k = String(blockKey ?? "");
+
+    if (k === ".") {
+      // local block resolution, exposes private units
+      return getBlockProxy(container, parent, parent);
+    }
+
+    // relative paths resolve to the absolute path of the block, and expose
+    // the private units of the own block
+    const block = isRelativePath(k) ? resolveRelativePath(parent, k) : k;
 
-    type ThisProxy = BlockProxy<Defs, P, K extends undefined ? "" : K>;
+    // lazy blocks are loaded before returning their proxy
+    const lazy = findLazyBlock(container, block);
+    if (lazy) {
+      return loadLazyBlock(container, lazy).then(() => {
+        assertBlockExists(container, parent, block);
+        return getBlockProxy(container, parent, block);
+      });
+    }
+
+    // root or external block resolution, uses absolute path of the block
+    assertBlockExists(container, parent, block);
+    return getBlockProxy(container, parent, block);
+  }
+
+  return blockInjector;
+}
+
+function isRelativePath(path: string): boolean {
+  return path === ".." || path.startsWith("./") || path.startsWith("../");
+}
+
+/** Resolves a relative block path like `"../repo"` against the block `parent` */
+function resolveRelativePath(parent: string, path: string): string {
+  const segments = parent === "" ? [] : parent.split(".");
+  for (const segment of path.split("/")) {
+    if (segment === "..") {
+      if (!segments.length) {
+        throw new BlockNotFoundError(path, parent, []);
+      }
+      segments.pop();
+    } else if (segment !== ".") {
+      segments.push(segment);
+    }
+  }
+  return segments.join(".");
+}
+
+function assertBlockExists(
+  container: Container,
+  parent: string,
+  block: string,
+): void {
+  if (block !== "" && !container.blockPaths.includes(block)) {
+    container.onMissing?.(block);
+    throw new BlockNotFoundError(
+      block,
+      parent,
+      getSuggestions(block, container.blockPaths),
+    );
+  }
+}
+
+/** Returns the proxy of `block` as seen from the block `parent` */
+function getBlockProxy(
+  container: Container,
+  parent: string,
+  block: string,
+): unknown {
+  let localCache = container.proxies.get(parent);
+  if (!localCache) {
+    localCache = new Map();
+    container.proxies.set(parent, localCache);
+  }
+
+  if (!localCache.has(block)) {
+    localCache.set(block, createBlockProxy(container, parent, block));
+  }
+  return localCache.get(block);
+}
+
+/** Extracts the path of the block of a unit, `""` for root units */
+function getBlockOf(key: string): string {
+  return key.split(".").slice(0, -1).join(".");
+}
+
+/** Full paths of the units that are visible from the block `P` */
+type PublicUnitPaths<L extends Hashmap, P extends string> = {
+  [K in keyof L]: L[K] extends { isPrivate: true }
+    ? never
+    : IsExportedTo<L, K, P> extends true
+      ? K
+      : never;
+}[keyof L];
+
+interface Inject<L extends Hashmap, B extends string> {
+  (): BlockProxy<L, B, "">;
+  (path: "."): BlockProxy<L, B, ".">;
+  <K extends BlockPaths<L>>(path: K): InjectedBlock<L, B, K>;
+  <K extends Extract<PublicUnitPaths<L, B>, string>>(
+    path: K,
+  ): IsLazyUnit<L[K]> extends true
+    ? Promise<InferUnitValue<L[K]>>
+    : InferUnitValue<L[K]>;
+}
+
+/**
+ * Creates an `inject` function that resolves blocks and units by their full
+ * path, relative to the unit that calls it. Private units are only visible
+ * from their own block.
+ *
+ * The optional `Block` type is only used to type `inject(".")`. At runtime,
+ * `"."` is the block of the unit being executed.
+ *
+ * @returns Function that takes a block path or a unit path and returns the block proxy or the unit
+ * @example
+ * import { createInject } from "wiremap";
+ * import type { Units } from "./app";
+ *
+ * const inject = createInject<Units, "post.service">();
+ *
+ * export async function addPost(entry: Entry) {
+ *   // a single unit
+ *   const authorize = inject("auth.service.authorize");
+ *   // a block
+ *   const postRepo = inject(".").repo;
+ *   await authorize(entry.author);
+ *   await postRepo.insert(entry);
+ * }
+ */
+export function createInject<
+  L extends Hashmap,
+  Block extends string = "",
+>(): Inject<L, Block> {
+  return function inject(path = ""): unknown {
+    const { container, key } = getCurrentFrame();
+    assertNotDisposed(container);
+    const caller = key === undefined ? undefined : getBlockOf(key);
+
+    if (path === ".") {
+      if (caller === undefined) {
+        throw new Error('inject(".") can only be called from a unit.');
+      }
+      return getBlockProxy(container, caller, caller);
+    }
+
+    const parent = caller ?? "";
+    // lazy blocks are loaded before resolving their blocks and units
+    const lazy = findLazyBlock(container, path);
+    if (lazy) {
+      return loadLazyBlock(container, lazy).then(() =>
+        injectPath(container, parent, path),
+      );
+    }
+    return injectPath(container, parent, path);
+  } as Inject<L, Block>;
+}
+
+/** Resolves the block or the unit in `path`, as seen from `parent` */
+function injectPath(
+  container: Container,
+  parent: string,
+  path: string,
+): unknown {
+  if (path === "" || container.blockPaths.includes(path)) {
+    return getBlockProxy(container, parent, path);
+  }
+
+  // single unit resolution, the block proxy checks its visibility
+  const block = getBlockOf(path);
+  assertBlockExists(container, parent, block);
+  const proxy = getBlockProxy(container, parent, block) as Hashmap;
+  return proxy[block === "" ? path : path.slice(block.length + 1)];
+}
+
+/** Names of the collections that the units of `L` contribute to */
+type CollectionNames<L extends Hashmap> = {
+  [K in keyof L]: L[K] extends { contributesTo: infer C extends string }
+    ? C
+    : never;
+}[keyof L];
+
+/** Paths of the units that contribute to the collection `C` */
+type CollectionKeys<L extends Hashmap, C extends string> = {
+  [K in keyof L]: L[K] extends { contributesTo: C } ? K : never;
+}[keyof L];
+
+interface Collect<L extends Hashmap> {
+  <C extends CollectionNames<L>>(
+    name: C,
+  ): InferUnitValue<L[CollectionKeys<L, C>]>[];
+  <C extends CollectionNames<L>>(
+    name: C,
+    options: { as: "map" },
+  ): { [K in CollectionKeys<L, C>]: InferUnitValue<L[K]> };
+}
+
+/** Unit that contributes to a collection, sorted by `order` */
+interface Contribution {
+  contributesTo: string;
+  order?: number;
+}
+
+function isContribution(unit: unknown): unit is Contribution {
+  return (
+    (isFunction(unit) || (typeof unit === "object" && unit !== null)) &&
+    "contributesTo" in unit &&
+    typeof unit.contributesTo === "string"
+  );
+}
+
+/** Paths of the units of a collection, sorted by their order */
+function getCollectionKeys(container: Container, name: string): string[] {
+  const { definitions } = container;
+  const order = (key: string) => (definitions[key] as Contribution).order ?? 0;
+  return Object.keys(definitions)
+    .filter((key) => {
+      const def = definitions[key];
+      return isContribution(def) && def.contributesTo === name;
+    })
+    .sort((a, b) => order(a) - order(b));
+}
+
+/**
+ * Creates a `collect` function that resolves the units that contribute to a
+ * collection, from any block. Units join a collection with the
+ * `contributesTo` flag, and are sorted by their optional `order` flag.
+ *
+ * @returns Function that takes the name of a collection and returns its units, as an array or as a map indexed by their paths
+ * @example
+ * import { createCollect } from "wiremap";
+ * import type { Units } from "./app";
+ *
+ * // user/routes.ts
+ * export const listUsers = {
+ *   method: "GET",
+ *   path: "/users",
+ *   handler: () => getUsers(),
+ *   contributesTo: "routes" as const,
+ *   order: 1,
+ * };
+ *
+ * // server.ts
+ * const collect = createCollect<Units>();
+ *
+ * export function start() {
+ *   for (const route of collect("routes")) router.add(route);
+ * }
+ */
+export function createCollect<L extends Hashmap>(): Collect<L> {
+  return function collect(name: string, options?: { as: "map" }): unknown {
+    const { container, key } = getCurrentFrame();
+    assertNotDisposed(container);
+    const caller = key === undefined ? "" : getBlockOf(key);
+
+    const entries = getCollectionKeys(container, name).map(
+      (unitKey): [string, unknown] => {
+        trackDependency(container, unitKey);
+        return [unitKey, readUnit(container, unitKey, caller)];
+      },
+    );
+    if (options?.as === "map") {
+      return Object.fromEntries(entries);
+    }
+    return entries.map(([, unit]) => unit);
+  } as Collect<L>;
+}
+
+type ConfigType = "string" | "number" | "boolean";
+
+/** Field of the schema of a config block */
+interface ConfigField {
+  type: ConfigType;
+  default?: unknown;
+  /** Whether the value must be set by a source when it has no default */
+  required?: boolean;
+  /** Secret values are wrapped in `Secret`, which redacts them when logged */
+  secret?: boolean;
+  /** Name of the environment variable, without prefix */
+  env?: string;
+}
+
+type ConfigSchema = Record<string, ConfigField>;
+
+type ConfigTypeOf<T extends ConfigType> = T extends "string"
+  ? string
+  : T extends "number"
+    ? number
+    : boolean;
+
+/** Type of the value of a config field, `undefined` when it is optional */
+type ConfigPlainValue<F extends ConfigField> = F extends
+  { default: unknown } | { required: true }
+  ? ConfigTypeOf<F["type"]>
+  : ConfigTypeOf<F["type"]> | undefined;
+
+/** Type of the unit of a config field */
+type ConfigValue<F extends ConfigField> = F extends { secret: true }
+  ? Secret<ConfigPlainValue<F>>
+  : ConfigPlainValue<F>;
+
+interface ConfigOptions<S extends ConfigSchema> {
+  /** Path of a JSON file with values, that override the defaults */
+  file?: string;
+  /** Reads the JSON file, defaults to the file system of Deno or Node */
+  readFile?: (path: string) => string;
+  /**
+   * Environment variables, that override the file. Defaults to the ones of
+   * the process that the runtime allows to read
+   */
+  env?: Record<string, string | undefined>;
+  /**
+   * Prefix of the environment variables. Fields are mapped to upper snake
+   * case, like `APP_DB_PASSWORD` for `dbPassword` with the prefix `APP_`
+   */
+  envPrefix?: string;
+  /** Values that override every other source */
+  overrides?: { [K in keyof S]?: ConfigTypeOf<S[K]["type"]> };
+}
+
+/**
+ * Secret config value. It is redacted when it is logged or serialized, call
+ * `reveal` to read it
+ */
+export class Secret<T> {
+  #value: T;
+
+  constructor(value: T) {
+    this.#value = value;
+  }
+
+  reveal(): T {
+    return this.#value;
+  }
+
+  toString(): string {
+    return "[secret]";
+  }
+
+  toJSON(): string {
+    return "[secret]";
+  }
+
+  [Symbol.for("nodejs.util.inspect.custom")](): string {
+    return "[secret]";
+  }
+
+  [Symbol.for("Deno.customInspect")](): string {
+    return "[secret]";
+  }
+}
+
+/**
+ * Error thrown when some values of a config block are missing or invalid.
+ * It reports all of them at once, without revealing secrets
+ */
+export class ConfigError extends Error {
+  problems: { field: string; message: string }[];
+
+  constructor(block: string, problems: { field: string; message: string }[]) {
+    super(
+      `Invalid config in block "${block}":\n` +
+        problems
+          .map(({ field, message }) => `- ${field}: ${message}`)
+          .join("\n"),
+    );
+    this.name = "ConfigError";
+    this.problems = problems;
+  }
+}
+
+function toEnvName(field: string): string {
+  return field.replace(/([a-z0-9])([A-Z])/g, "$1_$2").toUpperCase();
+}
+
+/** Reads a variable of the process, `undefined` where it is not allowed */
+function readEnvVariable(name: string): string | undefined {
+  const { Deno, process } = globalThis as unknown as {
+    Deno?: { env: { get(name: string): string | undefined } };
+    process?: { env: Record<string, string | undefined> };
+  };
+  try {
+    return Deno ? Deno.env.get(name) : process?.env[name];
+  } catch {
+    // Deno without the permission to read it
+    return undefined;
+  }
+}
+
+function readTextFile(path: string): string {
+  const { Deno, process } = globalThis as unknown as {
+    Deno?: { readTextFileSync(path: string): string };
+    process?: {
+      getBuiltinModule?(name: string): {
+        readFileSync(path: string, encoding: string): string;
+      };
+    };
+  };
+  if (Deno) return Deno.readTextFileSync(path);
+  const fs = process?.getBuiltinModule?.("node:fs");
+  if (fs) return fs.readFileSync(path, "utf8");
+  throw new Error("This runtime can not read files, pass `readFile`");
+}
+
+/** Converts a value from a source to the type of the field */
+function parseConfigValue(
+  field: ConfigField,
+  value: unknown,
+): { value: unknown } | { error: string } {
+  if (typeof value === field.type) return { value };
+  if (typeof value !== "string") {
+    return { error: `expected a ${field.type}, got ${typeof value}` };
+  }
+  if (field.type === "number") {
+    const number = Number(value);
+    return value.trim() === "" || Number.isNaN(number)
+      ? { error: "expected a number" }
+      : { value: number };
+  }
+  if (field.type === "boolean") {
+    if (["true", "1"].includes(value)) return { value: true };
+    if (["false", "0"].includes(value)) return { value: false };
+    return { error: "expected a boolean" };
+  }
+  return { value };
+}
+
+/**
+ * Creates a block with a unit for every field of a config schema. Values are
+ * taken from the defaults of the schema, a JSON file, the environment
+ * variables and the overrides, each source overriding the previous ones.
+ *
+ * @param name - The namespace prefix for the config units
+ * @param schema - Type, default and markers of every field
+ * @param options - Sources of the values
+ * @returns Object with the config units prefixed with the namespace
+ * @throws ConfigError when some values are missing or invalid
+ * @example
+ * import { createConfigBlock, wireApp } from "wiremap";
+ *
+ * const app = wireApp({
+ *   ...createConfigBlock(
+ *     "config",
+ *     {
+ *       port: { type: "number", default: 3000 },
+ *       dbPassword: { type: "string", required: true, secret: true },
+ *     },
+ *     { file: "./config.json", envPrefix: "APP_" },
+ *   ),
+ * });
+ *
+ * app("config").port; // 3000, or the value of APP_PORT
+ * app("config").dbPassword.reveal();
+ */
+export function createConfigBlock<
+  const S extends ConfigSchema,
+  Prefix extends string,
+>(
+  name: Prefix,
+  schema: S,
+  options: ConfigOptions<S> = {},
+): PrefixedHashmap<Prefix, { [K in keyof S]: ConfigValue<S[K]> }> {
+  const problems: { field: string; message: string }[] = [];
 
-    if (key in localCache) {
-      return localCache[key] as ThisProxy;
+  let fileValues: Hashmap = {};
+  if (options.file) {
+    try {
+      const parsed: unknown = JSON.parse(
+        (options.readFile ?? readTextFile)(options.file),
+      );
+      if (
+        typeof parsed === "object" &&
+        parsed !== null &&
+        !Array.isArray(parsed)
+      ) {
+        fileValues = parsed as Hashmap;
+      } else {
+        problems.push({
+          field: options.file,
+          message: "the file must contain a JSON object",
+        });
+      }
+    } catch (error) {
+      problems.push({
+        field: options.file,
+        message: `can not read the file: ${getErrorMessage(error)}`,
+      });
     }
+  }
 
-    const k = String(key);
+  const { env } = options;
+  const readEnv = env ? (name: string) => env[name] : readEnvVariable;
+  const overrides: Hashmap = options.overrides ?? {};
+  const units: Hashmap = {};
 
-    let proxy;
+  for (const [key, field] of Object.entries(schema)) {
+    const envName = `${options.envPrefix ?? ""}${field.env ?? toEnvName(key)}`;
+    const sources: [string, unknown][] = [
+      ["overrides", overrides[key]],
+      [`environment variable ${envName}`, readEnv(envName)],
+      [`file ${options.file}`, fileValues[key]],
+    ];
+    const source = sources.find(([, value]) => value !== undefined);
 
-    if (k === ".") {
-      // local block resolution, exposes private units
-      proxy = createBlockProxy(parent, parent) as unknown as ThisProxy;
-    } else if (k === "") {
-      // root block resolution
-      proxy = createBlockProxy(parent, "") as ThisProxy;
-    } else if (blockPaths.includes(k)) {
-      // external block resolution, uses absolute path of the block
-      proxy = createBlockProxy(parent, k) as unknown as ThisProxy;
-    } else {
-      throw new Error(`Unit ${String(key)} not found from block "${parent}"`);
+    if (!source) {
+      if (field.required && field.default === undefined) {
+        problems.push({ field: key, message: "missing required value" });
+      }
+      units[key] = field.secret
+        ? new Secret(field.default)
+        : (field.default as unknown);
+      continue;
     }
 
-    localCache[k] = proxy;
-    proxiesCache.set(k, proxy);
-    return proxy;
+    const parsed = parseConfigValue(field, source[1]);
+    if ("error" in parsed) {
+      problems.push({ field: key, message: `${parsed.error} in ${source[0]}` });
+      continue;
+    }
+    units[key] = field.secret ? new Secret(parsed.value) : parsed.value;
   }
 
-  return blockInjector;
+  if (problems.length) throw new ConfigError(name, problems);
+  return createBlock(name, units as { [K in keyof S]: ConfigValue<S[K]> });
 }
 
 /**
@@ -263,22 +3020,43 @@ type BlockUnitNames<L extends Hashmap, N extends string> = {
 }[keyof L];
 
 /**
- * Extract the names of the public units of a block
+ * Whether the unit `K` is visible from the block `P`, that is, it is exported
+ * or `P` is inside the block that hides it
+ */
+type IsExportedTo<L extends Hashmap, K extends keyof L, P extends string> = [
+  HiddenKeyOf<L[K]>,
+] extends [never]
+  ? true
+  : K extends `${infer Block}.${HiddenKeyOf<L[K]>}`
+    ? P extends Block | `${Block}.${string}`
+      ? true
+      : false
+    : true;
+
+/**
+ * Extract the names of the units of a block that are visible from the block
+ * `P`, skipping private units and units not exported to `P`
  *
  * This will  return "c" | "d":
  *
- * BlockUnitNames<{
+ * PublicBlockUnitNames<{
  *   a: 1,
  *   "b.c": 2,
  *   "b.d": 3,
  *   "b.c": {(): any; isPrivate: true }
- * }, "b">
+ * }, "b", "">
  */
-type PublicBlockUnitNames<L extends Hashmap, N extends string> = {
+type PublicBlockUnitNames<
+  L extends Hashmap,
+  N extends string,
+  P extends string,
+> = {
   [K in keyof L]: K extends `${N}.${NoDots<infer UnitName>}` //
     ? L[K] extends { isPrivate: true }
       ? never
-      : UnitName //
+      : IsExportedTo<L, K, P> extends true
+        ? UnitName
+        : never
     : never;
 }[keyof L];
 
@@ -299,18 +3077,106 @@ type BlockProxy<
           [K in BlockUnitNames<L, N>]: InferUnitValue<L[`${N}.${K}`]>;
         }
       : {
-          [K in PublicBlockUnitNames<L, N>]: InferUnitValue<L[`${N}.${K}`]>;
+          [K in PublicBlockUnitNames<L, N, P>]: InferUnitValue<L[`${N}.${K}`]>;
         };
 
+/** Block proxy returned by injectors, a promise of it for lazy blocks */
+type InjectedBlock<L extends Hashmap, P extends string, N extends string> =
+  IsLazyBlock<L, N> extends true
+    ? Promise<BlockProxy<L, P, N>>
+    : BlockProxy<L, P, N>;
+
 type InferUnitValue<D> =
-  D extends Factory<infer T> ? (T extends Promise<infer V> ? V : T) : D;
+  D extends Factory<infer T>
+    ? D extends { lifetime: "scoped" | "transient" }
+      ? T
+      : T extends Promise<infer V>
+        ? V
+        : T
+    : D;
+
+/**
+ * Error thrown when a block proxy is asked for a unit that does not exist
+ */
+export class UnitNotFoundError extends Error {
+  block: string;
+  unit: string;
+  /** Full path of the unit */
+  key: string;
+  /** Block of the injector that created the block proxy */
+  requestingBlock: string;
+  suggestions: string[];
+
+  constructor(
+    block: string,
+    unit: string,
+    requestingBlock: string,
+    suggestions: string[],
+  ) {
+    super(
+      `Key "${unit}" not found in block "${block}"` +
+        formatSuggestions(suggestions),
+    );
+    this.name = "UnitNotFoundError";
+    this.block = block;
+    this.unit = unit;
+    this.key = block === "" ? unit : `${block}.${unit}`;
+    this.requestingBlock = requestingBlock;
+    this.suggestions = suggestions;
+  }
+}
+
+/**
+ * Error thrown when a private unit, or a unit that is not exported by its
+ * block, is injected from another block
+ */
+export class PrivateUnitAccessError extends Error {
+  block: string;
+  unit: string;
+  /** Full path of the unit */
+  key: string;
+  /** Block of the injector that created the block proxy */
+  requestingBlock: string;
+  /** Block whose export list hides the unit, if it is not private */
+  hidingBlock?: string;
+
+  constructor(
+    block: string,
+    unit: string,
+    requestingBlock: string,
+    hidingBlock?: string,
+  ) {
+    super(
+      hidingBlock === undefined
+        ? `Unit "${unit}" of block "${block}" is private and can not be accessed from block "${requestingBlock}"`
+        : `Unit "${unit}" of block "${block}" is not exported by block "${hidingBlock}" and can not be accessed from block "${requestingBlock}"`,
+    );
+    this.name = "PrivateUnitAccessError";
+    this.block = block;
+    this.unit = unit;
+    this.key = block === "" ? unit : `${block}.${unit}`;
+    this.requestingBlock = requestingBlock;
+    this.hidingBlock = hidingBlock;
+  }
+}
 
 function createBlockProxy<
   L extends Hashmap,
   P extends string,
   N extends string,
->(parent: P, namespace: N): BlockProxy<L, P, N> {
-  const unitKeys = getBlockUnitPaths(parent, namespace);
+>(container: Container, parent: P, namespace: N): BlockProxy<L, P, N> {
+  let unitKeys = getBlockUnitPaths(container, parent, namespace);
+  let revision = container.revision.value;
+
+  // the units of the block change when the app is extended or replaced
+  function refresh(cachedblock: Hashmap): void {
+    if (revision === container.revision.value) return;
+    unitKeys = getBlockUnitPaths(container, parent, namespace);
+    revision = container.revision.value;
+    for (const prop of Object.keys(cachedblock)) {
+      delete cachedblock[prop];
+    }
+  }
 
   return new Proxy(
     {}, // used as a cache for the block
@@ -318,35 +3184,72 @@ function createBlockProxy<
       get: <K extends string>(cachedblock: Hashmap, prop: K) => {
         type ProxyValue = InferUnitValue<N extends "" ? L[K] : L[`${N}.${K}`]>;
 
+        assertNotDisposed(container);
+        refresh(cachedblock);
+
+        const finalKey = namespace === "" ? prop : `${namespace}.${prop}`;
+        // not a thenable, so lazy blocks can resolve their proxies
+        if (prop === "then" && !unitKeys.includes(finalKey)) return undefined;
+        trackDependency(container, finalKey);
+
         if (prop in cachedblock) {
+          if (
+            container.observers.size &&
+            isFactory(container.definitions[finalKey])
+          ) {
+            notify(container, "cacheHit", {
+              key: finalKey,
+              requestingBlock: parent,
+            });
+          }
           return cachedblock[prop] as ProxyValue;
         }
 
-        const finalKey = namespace === "" ? prop : `${namespace}.${prop}`;
-
         if (unitKeys.includes(finalKey)) {
-          if (finalKey in unitCache) {
-            const cachedValue = unitCache[finalKey];
-            cachedblock[prop] = cachedValue;
-            return cachedValue as ProxyValue;
+          const def = container.definitions[finalKey];
+          const value = readUnit(container, finalKey, parent);
+
+          if (!isFactory(def) || getLifetime(def) !== "transient") {
+            cachedblock[prop] = value;
           }
+          return value as ProxyValue;
+        }
 
-          const def = unitDefinitions[finalKey];
+        if (
+          typeof prop === "string" &&
+          isPrivate(container.definitions[finalKey])
+        ) {
+          throw new PrivateUnitAccessError(namespace, prop, parent);
+        }
 
-          const value = isFactory(def) ? def() : def;
+        const hidingBlock = getHidingBlock(container, finalKey, parent);
+        if (typeof prop === "string" && hidingBlock !== undefined) {
+          throw new PrivateUnitAccessError(
+            namespace,
+            prop,
+            parent,
+            hidingBlock,
+          );
+        }
 
-          cachedblock[prop] = value;
-          unitCache[finalKey] = value;
-          return def as ProxyValue;
+        if (typeof prop === "string" && !(finalKey in container.definitions)) {
+          container.onMissing?.(finalKey);
         }
 
-        throw new Error(
-          `Key "${String(prop)}" not found in block "${namespace}"`,
+        const unitNames = unitKeys.map((key) => key.split(".").pop() as string);
+        throw new UnitNotFoundError(
+          namespace,
+          String(prop),
+          parent,
+          getSuggestions(String(prop), unitNames),
         );
       },
 
-      ownKeys() {
-        return unitKeys;
+      ownKeys(cachedblock) {
+        refresh(cachedblock);
+        return unitKeys.map((key) =>
+          namespace === "" ? key : key.slice(namespace.length + 1),
+        );
       },
 
       getOwnPropertyDescriptor() {
@@ -361,6 +3264,380 @@ function createBlockProxy<
   ) as BlockProxy<L, P, N>;
 }
 
+/**
+ * Resolves a unit as seen from the block `requestingBlock`, binding function
+ * and object units to the app and wrapping functions with the interceptors
+ */
+function readUnit(
+  container: Container,
+  key: string,
+  requestingBlock: string,
+): unknown {
+  const unit = container.observers.size
+    ? resolveObserved(container, key, requestingBlock)
+    : resolveUnit(container, key);
+  if (isAsyncFactory(container.definitions[key]) && isPromise(unit)) {
+    throw new UnitNotReadyError(key, unit);
+  }
+  if (isFunction(unit)) {
+    return intercept(container, bindToContainer(container, unit, key), key);
+  }
+  return hasMethods(unit) ? bindObjectToContainer(container, unit, key) : unit;
+}
+
+/** Whether a unit is an object with methods, like services or class instances */
+function hasMethods(unit: unknown): unit is object {
+  if (typeof unit !== "object" || unit === null || Array.isArray(unit)) {
+    return false;
+  }
+  if (isPromise(unit)) return false;
+  const prototype = Object.getPrototypeOf(unit);
+  if (prototype !== null && prototype !== Object.prototype) return true;
+  return Object.values(unit).some(isFunction);
+}
+
+/**
+ * Resolves the unit stored in `key`, running its factory when needed.
+ * Singletons are cached in the app, scoped units in the scope, and
+ * transient units are never cached.
+ */
+function resolveUnit(container: Container, key: string): unknown {
+  const def = container.definitions[key];
+  if (!isFactory(def)) return def;
+
+  const lifetime = getLifetime(def);
+  if (lifetime === "transient") {
+    if (def.onDispose) {
+      throw new Error(
+        `Transient unit "${key}" can not have \`onDispose\`, its instances are not tracked.`,
+      );
+    }
+    return buildUnit(container, key, def);
+  }
+
+  if (lifetime === "scoped" && !container.parent) {
+    throw new Error(`Scoped unit "${key}" can only be resolved in a scope.`);
+  }
+
+  const owner =
+    lifetime === "singleton" ? (container.parent ?? container) : container;
+
+  if (key in owner.cache) {
+    return owner.cache[key];
+  }
+
+  const pending = owner.pending.get(key);
+  if (pending) {
+    // an async factory that awaits its own unit would never resolve
+    const path = getFramePath(owner);
+    if (path.includes(key)) {
+      throw new CircularDependencyError([
+        ...path.slice(path.indexOf(key)),
+        key,
+      ]);
+    }
+    return pending;
+  }
+
+  if (isAsyncFactory(def)) {
+    return resolveAsyncUnit(owner, key, def);
+  }
+
+  const unit = buildUnit(owner, key, def);
+  owner.cache[key] = unit;
+  trackDisposable(owner, key, def, unit);
+  return unit;
+}
+
+/**
+ * Error thrown when an async unit is injected before it resolves, like while
+ * the app is wired or extended
+ */
+export class UnitNotReadyError extends Error {
+  /** Full path of the unit */
+  key: string;
+  /** Settles when the async factory of the unit does */
+  ready: Promise<unknown>;
+
+  constructor(key: string, ready: Promise<unknown>) {
+    super(
+      `Async unit "${key}" is not ready yet. Read it with \`whenReady\` ` +
+        "from async factories, or once the app is wired.",
+    );
+    this.name = "UnitNotReadyError";
+    this.key = key;
+    this.ready = ready;
+  }
+}
+
+/**
+ * Reads units that may not be ready yet, like the async units that an async
+ * factory injects while the app is wired. Waits for them to resolve and
+ * calls `read` again.
+ *
+ * @param read - Function that reads the units from injectors
+ * @returns Promise of the value returned by `read`
+ * @example
+ * import { createInjector, whenReady } from "wiremap";
+ * import type { Units } from "./app";
+ *
+ * const inj = createInjector<Units>()("user.repo");
+ *
+ * export async function repo() {
+ *   const pool = await whenReady(() => inj("db").pool);
+ *   return createRepo(pool);
+ * }
+ * repo.isFactory = true as const;
+ */
+export async function whenReady<T>(read: () => T): Promise<T> {
+  while (true) {
+    try {
+      return read();
+    } catch (error) {
+      if (!(error instanceof UnitNotReadyError)) throw error;
+      await error.ready;
+    }
+  }
+}
+
+/**
+ * Error thrown when a unit depends on itself, directly or through other units
+ */
+export class CircularDependencyError extends Error {
+  path: string[];
+
+  constructor(path: string[]) {
+    super(`Circular dependency detected: ${path.join(" -> ")}`);
+    this.name = "CircularDependencyError";
+    this.path = path;
+  }
+}
+
+/**
+ * Error thrown when the factory of a unit throws or rejects
+ */
+export class FactoryFailedError extends Error {
+  /** Full path of the unit */
+  key: string;
+  block: string;
+  /** Units that were being built, from the first one to `key` */
+  path: string[];
+  cause: unknown;
+
+  constructor(path: string[], cause: unknown) {
+    const key = path[path.length - 1];
+    super(`Factory "${key}" failed: ${getErrorMessage(cause)}`);
+    this.name = "FactoryFailedError";
+    this.key = key;
+    this.block = getBlockOf(key);
+    this.path = path;
+    this.cause = cause;
+  }
+}
+
+/** Errors that already describe the unit that failed */
+function isResolutionError(error: unknown): boolean {
+  return (
+    error instanceof CircularDependencyError ||
+    error instanceof FactoryFailedError
+  );
+}
+
+/** Runs the factory of `key`, keeping track of the units being built */
+function buildUnit(
+  container: Container,
+  key: string,
+  factory: Factory<unknown>,
+): unknown {
+  const { resolving } = container;
+  const start = resolving.indexOf(key);
+
+  if (start !== -1) {
+    throw new CircularDependencyError([...resolving.slice(start), key]);
+  }
+
+  resolving.push(key);
+  const path = [...resolving];
+  try {
+    const unit = runInContainer(container, factory, key, [
+      ...getFramePath(container),
+      key,
+    ]);
+    if (!isPromise(unit)) return unit;
+    return unit.then(undefined, (error) => {
+      throw isResolutionError(error)
+        ? error
+        : new FactoryFailedError(path, error);
+    });
+  } catch (error) {
+    throw isResolutionError(error)
+      ? error
+      : new FactoryFailedError(path, error);
+  } finally {
+    resolving.pop();
+  }
+}
+
+/** Records that the factory being built injects the unit `key` */
+function trackDependency(container: Container, key: string): void {
+  // the frame keeps the factory across the awaits of async factories
+  const path = getFramePath(container);
+  const dependent = path[path.length - 1];
+  if (dependent === undefined || !(key in container.definitions)) return;
+
+  let dependencies = container.dependencies.get(dependent);
+  if (!dependencies) {
+    dependencies = new Set();
+    container.dependencies.set(dependent, dependencies);
+  }
+  dependencies.add(key);
+}
+
+type UnitKind = "value" | "factory" | "asyncFactory";
+
+interface UnitInfo {
+  /** Full path of the unit */
+  key: string;
+  /** Path of the block of the unit, `""` for root units */
+  block: string;
+  kind: UnitKind;
+  isPrivate: boolean;
+  /** Tags of the unit, when it has any */
+  tags?: string[];
+  /** Profile of the active alternative, for units created with `withProfiles` */
+  profile?: string;
+  lifetime?: Lifetime;
+  /** Whether the unit is cached in the app */
+  resolved: boolean;
+  /** Units injected by the factory of the unit, once it has been built */
+  dependencies: string[];
+}
+
+interface AppGraph {
+  blocks: { path: string; units: string[] }[];
+  units: UnitInfo[];
+}
+
+function inspectContainer(container: Container): AppGraph {
+  const { definitions, cache } = container;
+
+  const units = Object.keys(definitions).map((key): UnitInfo => {
+    const def = definitions[key];
+    const block = getBlockOf(key);
+    const info: UnitInfo = {
+      key,
+      block,
+      kind: isAsyncFactory(def)
+        ? "asyncFactory"
+        : isFactory(def)
+          ? "factory"
+          : "value",
+      isPrivate: isPrivate(def),
+      resolved: !isFactory(def) || key in cache,
+      dependencies: Array.from(container.dependencies.get(key) ?? []),
+    };
+    if (isFactory(def)) {
+      info.lifetime = getLifetime(def);
+    }
+    const { tags } = getUnitMetadata(def);
+    if (tags.length) {
+      info.tags = [...tags];
+    }
+    const profile = container.activeProfiles.get(key);
+    if (profile !== undefined) {
+      info.profile = profile;
+    }
+    return info;
+  });
+
+  const blockPaths = ["", ...new Set(container.blockPaths)];
+  const blocks = blockPaths.map((path) => ({
+    path,
+    units: units.filter((unit) => unit.block === path).map(({ key }) => key),
+  }));
+
+  return { blocks, units };
+}
+
+/**
+ * Exports the graph of an app to the Graphviz DOT language.
+ * Blocks are rendered as clusters, and edges go from dependents to their
+ * dependencies.
+ *
+ * @param graph - The result of `app.inspect()`
+ * @returns The source of a DOT digraph
+ */
+export function graphToDot(graph: AppGraph): string {
+  const lines = ["digraph wiremap {"];
+
+  for (const block of graph.blocks) {
+    const nodes = block.units.map(
+      (key) => `"${key}" [label="${key.split(".").pop()}"];`,
+    );
+    if (block.path === "") {
+      lines.push(...nodes.map((node) => `  ${node}`));
+      continue;
+    }
+    lines.push(`  subgraph "cluster_${block.path}" {`);
+    lines.push(`    label = "${block.path}";`);
+    lines.push(...nodes.map((node) => `    ${node}`));
+    lines.push("  }");
+  }
+
+  for (const unit of graph.units) {
+    for (const dependency of unit.dependencies) {
+      lines.push(`  "${unit.key}" -> "${dependency}";`);
+    }
+  }
+
+  lines.push("}");
+  return lines.join("\n");
+}
+
+/**
+ * Exports the graph of an app to a Mermaid flowchart.
+ * Blocks are rendered as subgraphs, and edges go from dependents to their
+ * dependencies.
+ *
+ * @param graph - The result of `app.inspect()`
+ * @returns The source of a Mermaid flowchart
+ */
+export function graphToMermaid(graph: AppGraph): string {
+  const toId = (key: string) => key.replace(/[^\w]/g, "_");
+  const lines = ["flowchart LR"];
+
+  for (const block of graph.blocks) {
+    const nodes = block.units.map(
+      (key) => `${toId(key)}["${key.split(".").pop()}"]`,
+    );
+    if (block.path === "") {
+      lines.push(...nodes.map((node) => `  ${node}`));
+      continue;
+    }
+    lines.push(`  subgraph ${toId(block.path)} ["${block.path}"]`);
+    lines.push(...nodes.map((node) => `    ${node}`));
+    lines.push("  end");
+  }
+
+  for (const unit of graph.units) {
+    for (const dependency of unit.dependencies) {
+      lines.push(`  ${toId(unit.key)} --> ${toId(dependency)}`);
+    }
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Exports the graph of an app to JSON
+ *
+ * @param graph - The result of `app.inspect()`
+ * @returns The graph as an indented JSON string
+ */
+export function graphToJSON(graph: AppGraph): string {
+  return JSON.stringify(graph, null, 2);
+}
+
 /**
  * Extracts the paths of the units of a block.
  *
@@ -374,9 +3651,12 @@ function createBlockProxy<
  * })
  */
 function getBlockUnitPaths<P extends string, N extends string>(
+  container: Container,
   parent: P,
   namespace: N,
 ) {
+  const unitDefinitions = container.definitions;
+
   if (namespace === "") {
     return Object.keys(unitDefinitions).filter(
       (key) => key.split(".").length === 1,
@@ -395,7 +3675,8 @@ function getBlockUnitPaths<P extends string, N extends string>(
     (key) =>
       key.startsWith(`${namespace}.`) &&
       key.slice(namespace.length + 1).split(".").length === 1 &&
-      !isPrivate(unitDefinitions[key]),
+      !isPrivate(unitDefinitions[key]) &&
+      getHidingBlock(container, key, parent) === undefined,
   );
 }
 
@@ -415,9 +3696,22 @@ function isFunction<T>(unit: unknown): unit is () => T {
   return typeof unit === "function";
 }
 
+/**
+ * How long the unit created by a factory lives:
+ * - `singleton`: created once per app (default)
+ * - `scoped`: created once per scope, see `app.createScope()`
+ * - `transient`: created every time it is injected
+ */
+type Lifetime = "singleton" | "scoped" | "transient";
+
 interface Factory<T> {
   (...args: unknown[]): T;
   isFactory: true;
+  lifetime?: Lifetime;
+  /** Maximum time in milliseconds to resolve the unit while wiring the app */
+  timeout?: number;
+  /** Tears down the unit created by the factory when the app is disposed */
+  onDispose?: (unit: T) => unknown;
 }
 
 function isFactory<T>(unit: unknown): unit is Factory<T> {
@@ -429,15 +3723,22 @@ function isFactory<T>(unit: unknown): unit is Factory<T> {
 }
 
 type IsAsyncFactory<T> = T extends { isFactory: true }
-  ? T extends (...args: unknown[]) => Promise<unknown>
-    ? true
-    : T extends Promise<unknown>
+  ? T extends { lifetime: "scoped" | "transient" }
+    ? false
+    : T extends (...args: unknown[]) => Promise<unknown>
       ? true
-      : false
+      : T extends Promise<unknown>
+        ? true
+        : false
   : false;
 
+function getLifetime(unit: Factory<unknown>): Lifetime {
+  return unit.lifetime ?? "singleton";
+}
+
 function isAsyncFactory<T>(unit: T): boolean {
   if (!isFactory(unit)) return false;
+  if (getLifetime(unit) !== "singleton") return false;
   if (isPromise(unit)) return true;
   if (!isFunction(unit)) return false;
   if ("isAsync" in unit && unit.isAsync === true) return true;
@@ -448,13 +3749,13 @@ function isAsyncFactory<T>(unit: T): boolean {
   return unit instanceof AsyncFunction;
 }
 
-interface PrivateUnit extends Func {
+interface PrivateUnit {
   isPrivate: true;
 }
 
 function isPrivate(unit: unknown): unit is PrivateUnit {
   if (unit === null) return false;
-  if (isFunction(unit) || isPromise(unit)) {
+  if (isFunction(unit) || typeof unit === "object") {
     return "isPrivate" in unit && unit.isPrivate === true;
   }
   return false;
@@ -462,6 +3763,8 @@ function isPrivate(unit: unknown): unit is PrivateUnit {
 
 /**
  * Mocks dependency injection for testing by temporarily replacing units with test doubles.
+ * Every call gets its own cache, and async functions keep resolving the test
+ * doubles until their promise settles.
  *
  * @param unit - The function to be tested that uses dependency injection
  * @param units - Mock units to replace the real dependencies during test execution
@@ -485,18 +3788,9 @@ export function mockInjection<D, L extends Hashmap>(unit: D, units: L): D {
   }
 
   return function (...args: unknown[]) {
-    const oldPublicKeys = blockPaths;
-    blockPaths = getBlockPaths(units);
-    const oldMainCache = unitCache;
-    const oldMainDefs = unitDefinitions;
-    unitDefinitions = units;
     // this weird cast is needed to make TypeScript happy
     const u = unit as Func;
-    const result = u(...args);
-    unitCache = oldMainCache;
-    unitDefinitions = oldMainDefs;
-    blockPaths = oldPublicKeys;
-    return result;
+    return runMocked(units, () => u(...args));
   } as D;
 }
 
@@ -527,15 +3821,292 @@ export function mockFactory<D extends Func, L extends Hashmap>(
   units: L,
 ): ReturnType<D> {
   return function (...args: unknown[]) {
-    const oldPublicKeys = blockPaths;
-    blockPaths = getBlockPaths(units);
-    const oldMainCache = unitCache;
-    const oldMainDefs = unitDefinitions;
-    unitDefinitions = units;
-    const result = (unit() as Func)(...args);
-    unitCache = oldMainCache;
-    unitDefinitions = oldMainDefs;
-    blockPaths = oldPublicKeys;
-    return result;
+    return runMocked(units, () => (unit() as Func)(...args));
   } as ReturnType<D>;
 }
+
+/**
+ * Runs `callback` against a new container of `units`. The context storage
+ * keeps it active in the async continuations of the call, so injections
+ * after an `await` keep resolving the fake units
+ */
+function runMocked<R>(units: Hashmap, callback: () => R): R {
+  const container = createContainer(units);
+  container.onMissing = missingUnitHandlers.get(units);
+  return runInContainer(container, callback);
+}
+
+interface SpyCall {
+  /** Full path of the unit */
+  key: string;
+  args: unknown[];
+  /** Returned value, replaced by the value of the promise once it resolves */
+  result?: unknown;
+  /**
+   * Thrown error, or the reason of the returned promise once it rejects.
+   * Only present if `threw` is true
+   */
+  error?: unknown;
+  threw: boolean;
+}
+
+interface SpyOptions {
+  /** Fail when the code under test injects a unit that is not in the fake units */
+  strict?: boolean;
+}
+
+/** Spied units returned by `createSpies`, with their calls and assertions */
+interface Spies<L extends Hashmap> {
+  /** The fake units with their functions wrapped in spies */
+  units: L;
+  /** Every call to the spied units, in call order */
+  calls: SpyCall[];
+  /** Paths of the injected units and blocks that are not in the fake units */
+  missing: string[];
+  callsOf(key: Extract<keyof L, string>): SpyCall[];
+  /** Throws if strict mode is on and a missing unit was injected */
+  verify(): void;
+  /** Asserts that a unit was called, exactly `times` times if given */
+  assertCalled(key: Extract<keyof L, string>, times?: number): void;
+  assertNotCalled(key: Extract<keyof L, string>): void;
+  /** Asserts that any call to a unit received `args` */
+  assertCalledWith(key: Extract<keyof L, string>, ...args: unknown[]): void;
+  /** Asserts that a unit was called exactly once, and received `args` */
+  assertCalledOnceWith(key: Extract<keyof L, string>, ...args: unknown[]): void;
+  /** Asserts that the first calls to the given units happened in order */
+  assertCallOrder(...keys: Extract<keyof L, string>[]): void;
+}
+
+/**
+ * Error thrown by the assertions of `createSpies`
+ */
+export class SpyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SpyError";
+  }
+}
+
+/** Handlers of the injections of missing units, indexed by spied units */
+const missingUnitHandlers = new WeakMap<Hashmap, (path: string) => void>();
+
+/**
+ * Wraps the function units of a fake units map in spies that record their
+ * calls. Pass `spies.units` to `mockInjection` or `mockFactory`, then use
+ * the assertion helpers to check the interactions.
+ *
+ * @param units - Fake units. Functions are wrapped, the rest are kept as is
+ * @param options - Use `strict` to fail when the code under test injects a unit that is not in `units`
+ * @returns The spied units, the recorded calls and the assertion helpers
+ * @example
+ * import { createSpies, mockInjection } from "wiremap";
+ * import { addUser } from "./userService";
+ *
+ * const spies = createSpies({
+ *   db: { users: [] },
+ *   "user.service.getUserByEmail": (email: string) => undefined,
+ * }, { strict: true });
+ *
+ * mockInjection(addUser, spies.units)("John", "john@example.com");
+ *
+ * spies.assertCalledOnceWith("user.service.getUserByEmail", "john@example.com");
+ */
+export function createSpies<L extends Hashmap>(
+  units: L,
+  options: SpyOptions = {},
+): Spies<L> {
+  const calls: SpyCall[] = [];
+  const missing: string[] = [];
+  const spiedUnits: Hashmap = {};
+
+  for (const key of Object.keys(units)) {
+    const unit = units[key];
+    spiedUnits[key] =
+      isFunction(unit) && !isFactory(unit) ? spyOn(key, unit) : unit;
+  }
+
+  function spyOn(key: string, fn: Func): Func {
+    const spy = function (this: unknown, ...args: unknown[]) {
+      const call: SpyCall = { key, args, threw: false };
+      calls.push(call);
+      try {
+        const result = fn.apply(this, args);
+        call.result = result;
+        if (isPromise(result)) {
+          result.then(
+            (value) => {
+              call.result = value;
+            },
+            (error) => {
+              call.error = error;
+              call.threw = true;
+            },
+          );
+        }
+        return result;
+      } catch (error) {
+        call.error = error;
+        call.threw = true;
+        throw error;
+      }
+    };
+    return Object.assign(spy, fn);
+  }
+
+  missingUnitHandlers.set(spiedUnits, (path) => {
+    missing.push(path);
+    if (options.strict) {
+      throw new SpyError(`Unit "${path}" is not defined in the fake units.`);
+    }
+  });
+
+  function callsOf(key: Extract<keyof L, string>): SpyCall[] {
+    return calls.filter((call) => call.key === key);
+  }
+
+  function verify(): void {
+    if (options.strict && missing.length) {
+      throw new SpyError(
+        `Units not defined in the fake units were injected: ${missing.join(", ")}`,
+      );
+    }
+  }
+
+  function describeCalls(key: Extract<keyof L, string>): string {
+    const list = callsOf(key).map(
+      (call) => `(${call.args.map(formatValue).join(", ")})`,
+    );
+    return list.length ? `Calls: ${list.join(", ")}` : "It was never called.";
+  }
+
+  function assertCalled(key: Extract<keyof L, string>, times?: number): void {
+    verify();
+    const count = callsOf(key).length;
+    if (times === undefined ? count === 0 : count !== times) {
+      const expected = times === undefined ? "at least once" : `${times} times`;
+      throw new SpyError(
+        `Expected "${key}" to be called ${expected}, but it was called ${count} times.`,
+      );
+    }
+  }
+
+  function assertNotCalled(key: Extract<keyof L, string>): void {
+    assertCalled(key, 0);
+  }
+
+  function assertCalledWith(
+    key: Extract<keyof L, string>,
+    ...args: unknown[]
+  ): void {
+    verify();
+    if (!callsOf(key).some((call) => isEqual(call.args, args))) {
+      const expected = args.map(formatValue).join(", ");
+      throw new SpyError(
+        `Expected "${key}" to be called with (${expected}). ${describeCalls(key)}`,
+      );
+    }
+  }
+
+  function assertCalledOnceWith(
+    key: Extract<keyof L, string>,
+    ...args: unknown[]
+  ): void {
+    assertCalled(key, 1);
+    assertCalledWith(key, ...args);
+  }
+
+  function assertCallOrder(...keys: Extract<keyof L, string>[]): void {
+    verify();
+    const order = keys.map((key) =>
+      calls.findIndex((call) => call.key === key),
+    );
+    const inOrder = order.every(
+      (index, i) => index !== -1 && (i === 0 || index > order[i - 1]),
+    );
+    if (!inOrder) {
+      const actual = calls.map((call) => call.key).join(", ");
+      throw new SpyError(
+        `Expected calls in order: ${keys.join(", ")}. Actual calls: ${actual}`,
+      );
+    }
+  }
+
+  return {
+    units: spiedUnits as L,
+    calls,
+    missing,
+    callsOf,
+    verify,
+    assertCalled,
+    assertNotCalled,
+    assertCalledWith,
+    assertCalledOnceWith,
+    assertCallOrder,
+  };
+}
+
+function formatValue(value: unknown): string {
+  try {
+    return JSON.stringify(value) ?? String(value);
+  } catch {
+    return String(value);
+  }
+}
+
+/** Returns the candidates that look like `name`, most similar first */
+function getSuggestions(name: string, candidates: string[]): string[] {
+  const maxDistance = Math.max(2, Math.floor(name.length / 3));
+  return Array.from(new Set(candidates))
+    .map((candidate) => ({
+      candidate,
+      distance: getEditDistance(name, candidate),
+    }))
+    .filter(({ distance }) => distance <= maxDistance)
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, 3)
+    .map(({ candidate }) => candidate);
+}
+
+function formatSuggestions(suggestions: string[]): string {
+  if (!suggestions.length) return "";
+  return `. Did you mean ${suggestions.map((s) => `"${s}"`).join(", ")}?`;
+}
+
+/** Levenshtein distance between two strings */
+function getEditDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + cost,
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/** Deep equality for plain values, arrays and objects */
+function isEqual(a: unknown, b: unknown): boolean {
+  if (Object.is(a, b)) return true;
+  if (
+    typeof a !== "object" ||
+    typeof b !== "object" ||
+    a === null ||
+    b === null ||
+    Array.isArray(a) !== Array.isArray(b)
+  ) {
+    return false;
+  }
+
+  const keysA = Object.keys(a);
+  const keysB = Object.keys(b);
+  return (
+    keysA.length === keysB.length &&
+    keysA.every((key) => isEqual((a as Hashmap)[key], (b as Hashmap)[key]))
+  );
+}
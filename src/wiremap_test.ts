@@ -1,10 +1,43 @@
-import { assertEquals } from "@std/assert";
 import {
+  assertEquals,
+  assertInstanceOf,
+  assertRejects,
+  assertThrows,
+} from "@std/assert";
+import { AsyncLocalStorage } from "node:async_hooks";
+import {
+  BlockNotFoundError,
+  CircularDependencyError,
+  composeBlocks,
+  createSpies,
+  defineBlock,
+  FactoryFailedError,
   createBlock,
+  createCollect,
+  createConfigBlock,
+  ConfigError,
+  createInject,
   createInjector,
+  createLazyBlock,
+  createProfiler,
+  defineContract,
+  graphToDot,
+  graphToMermaid,
+  InvalidKeyError,
+  KeyCollisionError,
   mockFactory,
   mockInjection,
+  PrivateUnitAccessError,
+  ProfileNotFoundError,
+  SpyError,
+  StartupError,
+  UnitNotFoundError,
+  UnitNotReadyError,
+  UnmetContractError,
+  whenReady,
   wireApp,
+  withProfiles,
+  setContextStorage,
 } from "./wiremap.ts";
 
 Deno.test("wireApp resolves dependencies", () => {
@@ -191,7 +224,10 @@ Deno.test("wireApp protects private units", () => {
     passedFromBlockInjector = true;
   } catch (e: unknown) {
     if (e instanceof Error) {
-      assertEquals(e.message, 'Key "priv" not found in block "A"');
+      assertEquals(
+        e.message,
+        'Unit "priv" of block "A" is private and can not be accessed from block "B"',
+      );
     }
   }
 
@@ -209,7 +245,10 @@ Deno.test("wireApp protects private units", () => {
     passedFromRootInjector = true;
   } catch (e: unknown) {
     if (e instanceof Error) {
-      assertEquals(e.message, 'Key "priv" not found in block "A"');
+      assertEquals(
+        e.message,
+        'Unit "priv" of block "A" is private and can not be accessed from block ""',
+      );
     }
   }
 
@@ -219,3 +258,1533 @@ Deno.test("wireApp protects private units", () => {
     "Private units should not be accessible from root injector",
   );
 });
+
+Deno.test("wireApp returns isolated apps", () => {
+  const inj = createInjector<Defs>()("tenant");
+
+  function getName() {
+    return inj().name;
+  }
+
+  let calls = 0;
+  function counter() {
+    calls++;
+    return calls;
+  }
+  counter.isFactory = true as const;
+
+  class Greeter {
+    #greeting = "hi";
+    greet() {
+      return `${this.#greeting} ${inj().name}`;
+    }
+  }
+
+  function repo() {
+    return { name: () => inj().name };
+  }
+  repo.isFactory = true as const;
+
+  function greeter() {
+    return new Greeter();
+  }
+  greeter.isFactory = true as const;
+
+  const defs = {
+    name: "a",
+    counter,
+    "tenant.getName": getName,
+    "tenant.repo": repo,
+    "tenant.greeter": greeter,
+  };
+  type Defs = typeof defs;
+
+  const appA = wireApp(defs);
+  const appB = wireApp({ ...defs, name: "b" });
+
+  assertEquals(appA("tenant").getName(), "a");
+  assertEquals(appB("tenant").getName(), "b");
+  assertEquals(appA("tenant").repo.name(), "a", "methods run in their app");
+  assertEquals(appA("tenant").greeter.greet(), "hi a");
+  assertInstanceOf(appA("tenant").greeter, Greeter);
+
+  assertEquals(appA().counter, 1);
+  assertEquals(appB().counter, 2, "each app has its own cache");
+  assertEquals(appA().counter, 1);
+});
+
+Deno.test("apps keep track of their context across awaits", async () => {
+  // the default storage where the runtime has \`process.getBuiltinModule\`
+  setContextStorage(new AsyncLocalStorage());
+
+  const inj = createInjector<Defs>()("svc");
+
+  async function get() {
+    await new Promise((resolve) => setTimeout(resolve, 1));
+    return inj().tenant;
+  }
+
+  const defs = { tenant: "a", "svc.get": get };
+  type Defs = typeof defs;
+
+  const appA = wireApp(defs);
+  const appB = wireApp({ ...defs, tenant: "b" });
+
+  assertEquals(await Promise.all([appA("svc").get(), appB("svc").get()]), [
+    "a",
+    "b",
+  ]);
+});
+
+Deno.test("app disposes units in reverse creation order", async () => {
+  const inj = createInjector<Defs>()("db");
+  const disposed: string[] = [];
+
+  function pool() {
+    return { name: "pool" };
+  }
+  pool.isFactory = true as const;
+  pool.onDispose = async (unit: { name: string }) => {
+    await Promise.resolve();
+    disposed.push(unit.name);
+  };
+
+  function repo() {
+    const p = inj(".").pool;
+    return {
+      name: `repo(${p.name})`,
+      [Symbol.dispose]: () => disposed.push("repo"),
+    };
+  }
+  repo.isFactory = true as const;
+
+  const defs = {
+    plain: { name: "plain" },
+    ...createBlock("db", { pool, repo }),
+  };
+  type Defs = typeof defs;
+
+  const app = wireApp(defs);
+  assertEquals(app("db").repo.name, "repo(pool)");
+  assertEquals(app().plain.name, "plain");
+
+  await app.dispose();
+  assertEquals(disposed, ["repo", "pool"]);
+
+  assertThrows(() => app("db").repo, Error, "The app has been disposed.");
+
+  function failing() {
+    return {};
+  }
+  failing.isFactory = true as const;
+  failing.onDispose = () => Promise.reject(new Error("boom"));
+
+  const syncApp = wireApp({ failing });
+  syncApp().failing;
+  assertThrows(
+    () => syncApp[Symbol.dispose](),
+    Error,
+    "Use `await using` or `dispose()` instead.",
+  );
+
+  const closed: string[] = [];
+  async function conn() {
+    return { name: "conn" };
+  }
+  conn.isFactory = true as const;
+  conn.onDispose = (unit: { name: string }) => closed.push(unit.name);
+
+  async function broken() {
+    throw new Error("connection refused");
+  }
+  broken.isFactory = true as const;
+
+  await assertRejects(() => wireApp({ conn, broken }), StartupError);
+  assertEquals(closed, ["conn"], "failed startups dispose the built units");
+
+  let release = () => {};
+  async function late() {
+    await new Promise<void>((resolve) => (release = resolve));
+    return { name: "late" };
+  }
+  late.isFactory = true as const;
+  late.onDispose = (unit: { name: string }) => closed.push(unit.name);
+
+  const lateApp = wireApp({ late }, { wait: false });
+  await lateApp.dispose();
+  release();
+  await lateApp.ready;
+  assertEquals(closed, ["conn", "late"], "units resolved after disposal");
+
+  function session() {
+    return { name: "session" };
+  }
+  session.isFactory = true as const;
+  session.lifetime = "scoped" as const;
+  session.onDispose = (unit: { name: string }) => closed.push(unit.name);
+
+  const scopedApp = wireApp({ session });
+  const scope = scopedApp.createScope();
+  scope().session;
+  await scopedApp.dispose();
+  assertEquals(closed, ["conn", "late", "session"], "scopes are disposed too");
+  assertThrows(() => scope().session, Error, "The app has been disposed.");
+});
+
+Deno.test("wireApp supports transient and scoped lifetimes", () => {
+  const inj = createInjector<Defs>()("req");
+  let count = 0;
+
+  function id() {
+    return ++count;
+  }
+  id.isFactory = true as const;
+  id.lifetime = "transient" as const;
+
+  function user() {
+    return { name: `user${inj(".").id}` };
+  }
+  user.isFactory = true as const;
+  user.lifetime = "scoped" as const;
+
+  function greet() {
+    return `hello ${inj(".").user.name}`;
+  }
+
+  const defs = { ...createBlock("req", { id, user, greet }) };
+  type Defs = typeof defs;
+
+  const app = wireApp(defs);
+
+  assertEquals(app("req").id, 1);
+  assertEquals(app("req").id, 2, "transient units are never cached");
+
+  assertThrows(
+    () => app("req").user,
+    Error,
+    'Scoped unit "req.user" can only be resolved in a scope.',
+  );
+
+  const scopeA = app.createScope();
+  const scopeB = app.createScope();
+
+  assertEquals(scopeA("req").greet(), "hello user3");
+  assertEquals(scopeA("req").user.name, "user3", "scoped units are cached");
+  assertEquals(scopeB("req").greet(), "hello user4");
+
+  function conn() {
+    return {};
+  }
+  conn.isFactory = true as const;
+  conn.lifetime = "transient" as const;
+  conn.onDispose = () => undefined;
+
+  assertThrows(
+    () => wireApp({ conn })().conn,
+    Error,
+    'Transient unit "conn" can not have `onDispose`, its instances are not tracked.',
+  );
+});
+
+Deno.test("wireApp detects circular dependencies", async () => {
+  const injDb = createInjector<Defs>()("db");
+  const injRepo = createInjector<Defs>()("user.repo");
+
+  function pool(): unknown {
+    return injRepo("user.repo").repo;
+  }
+  pool.isFactory = true as const;
+
+  function repo(): unknown {
+    return injDb("db").pool;
+  }
+  repo.isFactory = true as const;
+
+  const defs = {
+    ...createBlock("db", { pool }),
+    ...createBlock("user.repo", { repo }),
+  };
+  type Defs = typeof defs;
+
+  const app = wireApp(defs);
+  const error = assertThrows(
+    () => app("user.repo").repo,
+    CircularDependencyError,
+  );
+  assertEquals(error.path, ["user.repo.repo", "db.pool", "user.repo.repo"]);
+  assertEquals(
+    error.message,
+    "Circular dependency detected: user.repo.repo -> db.pool -> user.repo.repo",
+  );
+
+  const injAsync = createInjector<AsyncDefs>()("cache");
+
+  async function conn(): Promise<unknown> {
+    await Promise.resolve();
+    return injAsync(".").client;
+  }
+  conn.isFactory = true as const;
+
+  function client(): unknown {
+    return injAsync(".").conn;
+  }
+  client.isFactory = true as const;
+
+  const asyncDefs = { ...createBlock("cache", { conn, client }) };
+  type AsyncDefs = typeof asyncDefs;
+
+  const startupError = await assertRejects(
+    () => wireApp(asyncDefs),
+    StartupError,
+  );
+  const asyncError = startupError.failures[0].error;
+  assertInstanceOf(asyncError, CircularDependencyError);
+  assertEquals(asyncError.path, ["cache.conn", "cache.client", "cache.conn"]);
+});
+
+Deno.test("wireApp resolves async factories concurrently", async () => {
+  const inj = createInjector<Defs>()("db");
+  const started: string[] = [];
+  let repoCalls = 0;
+
+  async function repo() {
+    repoCalls++;
+    const pool = await whenReady(() => inj(".").pool);
+    started.push("repo");
+    return { pool };
+  }
+  repo.isFactory = true as const;
+
+  async function pool() {
+    started.push("pool");
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    return "pool";
+  }
+  pool.isFactory = true as const;
+
+  async function cache() {
+    started.push("cache");
+    return "cache";
+  }
+  cache.isFactory = true as const;
+
+  const defs = { ...createBlock("db", { repo, pool, cache }) };
+  type Defs = typeof defs;
+
+  const app = await wireApp(defs);
+  assertEquals(app("db").repo.pool, "pool", "waits for later declared units");
+  assertEquals(started, ["pool", "cache", "repo"]);
+  assertEquals(repoCalls, 1, "factories are never run twice");
+
+  let counted = 0;
+  function counter() {
+    return ++counted;
+  }
+  counter.isFactory = true as const;
+
+  const injNet = createInjector<NetDefs>()("net");
+
+  function url() {
+    return injNet(".").host;
+  }
+  url.isFactory = true as const;
+
+  async function client() {
+    return { url: injNet(".").url };
+  }
+  client.isFactory = true as const;
+
+  async function host() {
+    return "localhost";
+  }
+  host.isFactory = true as const;
+
+  const netDefs = createBlock("net", { client, url, host });
+  type NetDefs = typeof netDefs;
+
+  const syncError = await assertRejects(() => wireApp(netDefs), StartupError);
+  const notReady = syncError.failures[0].error;
+  assertInstanceOf(notReady, FactoryFailedError);
+  assertInstanceOf(notReady.cause, UnitNotReadyError);
+  assertEquals(
+    notReady.message,
+    'Factory "net.url" failed: Async unit "net.host" is not ready yet. Read ' +
+      "it with `whenReady` from async factories, or once the app is wired.",
+  );
+
+  const lazyApp = await wireApp({ counter, cache });
+  assertEquals(counted, 0, "sync factories are not built eagerly");
+  assertEquals(lazyApp().counter, 1);
+
+  async function broken() {
+    throw new Error("connection refused");
+  }
+  broken.isFactory = true as const;
+
+  function slow() {
+    return new Promise(() => {});
+  }
+  slow.isFactory = true as const;
+  slow.isAsync = true as const;
+  slow.timeout = 5;
+
+  const error = await assertRejects(
+    () => wireApp({ broken, slow, cache }),
+    StartupError,
+  );
+  assertEquals(
+    error.message,
+    "2 units failed to resolve:\n" +
+      "- broken: connection refused\n" +
+      '- slow: Factory "slow" timed out after 5ms.',
+  );
+});
+
+Deno.test("app.inspect describes the units and their dependencies", () => {
+  const inj = createInjector<Defs>()("db");
+
+  function pool() {
+    return { url: inj().url };
+  }
+  pool.isFactory = true as const;
+
+  function secret() {
+    return "secret";
+  }
+  secret.isPrivate = true as const;
+
+  const defs = {
+    url: "postgres://localhost",
+    ...createBlock("db", { pool, secret }),
+  };
+  type Defs = typeof defs;
+
+  const app = wireApp(defs);
+  assertEquals(app.inspect().units[1].resolved, false);
+
+  app("db").pool;
+  const graph = app.inspect();
+
+  assertEquals(graph.blocks, [
+    { path: "", units: ["url"] },
+    { path: "db", units: ["db.pool", "db.secret"] },
+  ]);
+  assertEquals(graph.units, [
+    {
+      key: "url",
+      block: "",
+      kind: "value",
+      isPrivate: false,
+      resolved: true,
+      dependencies: [],
+    },
+    {
+      key: "db.pool",
+      block: "db",
+      kind: "factory",
+      isPrivate: false,
+      lifetime: "singleton",
+      resolved: true,
+      dependencies: ["url"],
+    },
+    {
+      key: "db.secret",
+      block: "db",
+      kind: "value",
+      isPrivate: true,
+      resolved: true,
+      dependencies: [],
+    },
+  ]);
+
+  assertEquals(
+    graphToDot(graph),
+    `digraph wiremap {
+  "url" [label="url"];
+  subgraph "cluster_db" {
+    label = "db";
+    "db.pool" [label="pool"];
+    "db.secret" [label="secret"];
+  }
+  "db.pool" -> "url";
+}`,
+  );
+
+  assertEquals(
+    graphToMermaid(graph),
+    `flowchart LR
+  url["url"]
+  subgraph db ["db"]
+    db_pool["pool"]
+    db_secret["secret"]
+  end
+  db_pool --> url`,
+  );
+});
+
+Deno.test("wireApp replaces units with overrides", () => {
+  const injService = createInjector<Defs>()("user.service");
+  const injRepo = createInjector<Defs>()("user.repo");
+
+  function findUser(id: string) {
+    return injRepo().db.users.find((user) => user.id === id);
+  }
+
+  function getUserName(id: string) {
+    return injService("user.repo").findUser(id)?.name;
+  }
+
+  const defs = {
+    db: { users: [{ id: "1", name: "real" }] },
+    ...createBlock("user.repo", { findUser }),
+    ...createBlock("user.service", { getUserName }),
+  };
+  type Defs = typeof defs;
+
+  const fakeDb = { users: [{ id: "1", name: "fake" }] };
+
+  const app = wireApp(defs, { overrides: { db: fakeDb } });
+  assertEquals(app("user.service").getUserName("1"), "fake");
+
+  const otherApp = app.withOverrides({
+    "user.repo.findUser": () => ({ id: "1", name: "other" }),
+  });
+  assertEquals(otherApp("user.service").getUserName("1"), "other");
+  assertEquals(otherApp().db, fakeDb, "previous overrides are kept");
+
+  // @ts-expect-error: overrides must match the type of the unit
+  wireApp(defs, { overrides: { db: { users: "none" } } });
+
+  assertThrows(
+    // @ts-expect-error: overrides must match a unit
+    () => wireApp(defs, { overrides: { other: 1 } }),
+    Error,
+    'Override "other" does not match any unit.',
+  );
+});
+
+Deno.test("mockInjection keeps the fake units across awaits", async () => {
+  // the default storage where the runtime has \`process.getBuiltinModule\`
+  setContextStorage(new AsyncLocalStorage());
+
+  const inj = createInjector<Defs>()("user.service");
+
+  async function getUserName(id: string) {
+    await Promise.resolve();
+    const user = inj("user.repo").findUser(id);
+    if (!user) throw new Error("not found");
+    return user.name;
+  }
+
+  let calls = 0;
+  function findUser() {
+    calls++;
+    return (id: string) => (id === "1" ? { name: "real" } : undefined);
+  }
+  findUser.isFactory = true as const;
+
+  const defs = {
+    ...createBlock("user.repo", { findUser }),
+    ...createBlock("user.service", { getUserName }),
+  };
+  type Defs = typeof defs;
+
+  const app = wireApp(defs);
+
+  function fakeFindUser() {
+    calls++;
+    return (id: string) => (id === "1" ? { name: "fake" } : undefined);
+  }
+  fakeFindUser.isFactory = true as const;
+
+  const getUserNameMock = mockInjection(getUserName, {
+    "user.repo.findUser": fakeFindUser,
+  });
+
+  assertEquals(await getUserNameMock("1"), "fake");
+  await assertRejects(() => getUserNameMock("2"), Error, "not found");
+  assertEquals(calls, 2, "every mocked call gets its own cache");
+
+  const mockAs = (name: string) =>
+    mockInjection(getUserName, {
+      "user.repo.findUser": () => ({ name }),
+    });
+  assertEquals(
+    await Promise.all([mockAs("one")("1"), mockAs("two")("1")]),
+    ["one", "two"],
+    "concurrent mocked calls keep their own units",
+  );
+
+  assertEquals(await app("user.service").getUserName("1"), "real");
+});
+
+Deno.test("createSpies records the calls to the fake units", async () => {
+  const inj = createInjector<typeof fakeUnits>()("user.service");
+
+  function addUser(email: string) {
+    const service = inj(".");
+    if (service.getUserByEmail(email)) return false;
+    service.saveUser(email);
+    return true;
+  }
+
+  function getPosts() {
+    // @ts-ignore: this is just for the internal test
+    return inj("post.service").getPosts();
+  }
+
+  const fakeUnits = {
+    "user.service.getUserByEmail": (email: string) =>
+      email === "taken@example.com" ? { email } : undefined,
+    "user.service.saveUser": (email: string) => {
+      if (!email) throw new Error("empty email");
+    },
+  };
+
+  const spies = createSpies(fakeUnits, { strict: true });
+  const addUserMock = mockInjection(addUser, spies.units);
+
+  assertEquals(addUserMock("john@example.com"), true);
+  assertEquals(addUserMock("taken@example.com"), false);
+  assertThrows(() => addUserMock(""), Error, "empty email");
+
+  spies.assertCalled("user.service.getUserByEmail", 3);
+  spies.assertCalledWith("user.service.getUserByEmail", "taken@example.com");
+  spies.assertCallOrder("user.service.getUserByEmail", "user.service.saveUser");
+  assertEquals(spies.callsOf("user.service.saveUser")[1].threw, true);
+
+  assertThrows(
+    () => spies.assertCalledOnceWith("user.service.saveUser", "x"),
+    SpyError,
+    'Expected "user.service.saveUser" to be called 1 times, but it was called 2 times.',
+  );
+
+  assertThrows(
+    () => mockInjection(getPosts, spies.units)(),
+    SpyError,
+    'Unit "post.service" is not defined in the fake units.',
+  );
+  assertThrows(() => spies.verify(), SpyError);
+
+  const asyncSpies = createSpies({
+    load: (id: string) =>
+      id ? Promise.resolve({ id }) : Promise.reject(new Error("no id")),
+  });
+  await asyncSpies.units.load("1");
+  await assertRejects(() => asyncSpies.units.load(""));
+  assertEquals(asyncSpies.calls[0].result, { id: "1" });
+  assertEquals(asyncSpies.calls[1].threw, true);
+  assertEquals((asyncSpies.calls[1].error as Error).message, "no id");
+});
+
+Deno.test("resolution errors are structured", () => {
+  const inj = createInjector<Defs>()("user.service");
+
+  function getUser(): unknown {
+    // @ts-ignore: this is just for the internal test
+    return inj(".").getUsr;
+  }
+  getUser.isFactory = true as const;
+
+  function repo() {
+    throw new Error("connection refused");
+  }
+  repo.isFactory = true as const;
+
+  const defs = {
+    ...createBlock("user.service", { getUser, getUsers: () => [] }),
+    ...createBlock("user.repo", { repo }),
+  };
+  type Defs = typeof defs;
+
+  const app = wireApp(defs);
+
+  const blockError = assertThrows(
+    // @ts-ignore: this is just for the internal test
+    () => app("user.servise"),
+    BlockNotFoundError,
+    'Did you mean "user.service"?',
+  );
+  assertEquals(blockError.block, "user.servise");
+  assertEquals(blockError.requestingBlock, "");
+
+  const factoryError = assertThrows(
+    () => app("user.service").getUser,
+    FactoryFailedError,
+  );
+  assertEquals(factoryError.key, "user.service.getUser");
+  const unitError = factoryError.cause;
+  assertInstanceOf(unitError, UnitNotFoundError);
+  assertEquals(unitError.key, "user.service.getUsr");
+  assertEquals(unitError.requestingBlock, "user.service");
+  assertEquals(unitError.suggestions, ["getUser", "getUsers"]);
+  assertEquals(
+    unitError.message,
+    'Key "getUsr" not found in block "user.service". Did you mean "getUser", "getUsers"?',
+  );
+
+  const repoError = assertThrows(
+    () => app("user.repo").repo,
+    FactoryFailedError,
+    'Factory "user.repo.repo" failed: connection refused',
+  );
+  assertEquals(repoError.block, "user.repo");
+});
+
+Deno.test("createInject resolves blocks and units by path", () => {
+  const inject = createInject<Defs, "user.service">();
+
+  function hash(password: string) {
+    return `hashed:${password}`;
+  }
+  hash.isPrivate = true as const;
+
+  function register(password: string) {
+    const authorize = inject("auth.service.authorize");
+    return authorize() ? inject(".").hash(password) : undefined;
+  }
+
+  function steal() {
+    // @ts-ignore: this is just for the internal test
+    return inject("user.service.hash");
+  }
+
+  const defs = {
+    config: { admin: true },
+    ...createBlock("auth.service", {
+      authorize: () => inject().config.admin,
+      steal,
+    }),
+    ...createBlock("user.service", { hash, register }),
+  };
+  type Defs = typeof defs;
+
+  const app = wireApp(defs);
+
+  assertEquals(app("user.service").register("1234"), "hashed:1234");
+  assertEquals(inject("user.service").register("abc"), "hashed:abc");
+  assertEquals(inject("config"), { admin: true });
+
+  assertThrows(
+    () => app("auth.service").steal(),
+    PrivateUnitAccessError,
+    'Unit "hash" of block "user.service" is private and can not be accessed from block "auth.service"',
+  );
+  assertThrows(
+    () => inject("."),
+    Error,
+    'inject(".") can only be called from a unit.',
+  );
+});
+
+Deno.test("injectors resolve relative block paths", () => {
+  const inj = createInjector<Defs>()("user.service");
+
+  function getUser(id: string) {
+    const cached = inj("./cache").get(id);
+    return cached ?? inj("../repo").findUser(id);
+  }
+
+  const defs = {
+    ...createBlock("user", {
+      name: "users",
+      ...createBlock("repo", { findUser: (id: string) => `repo:${id}` }),
+      ...createBlock("service", {
+        getUser,
+        ...createBlock("cache", {
+          get: (id: string) => (id === "1" ? "cache:1" : undefined),
+        }),
+      }),
+    }),
+  };
+  type Defs = typeof defs;
+
+  const app = wireApp(defs);
+
+  assertEquals(app("user.service").getUser("1"), "cache:1");
+  assertEquals(app("user.service").getUser("2"), "repo:2");
+  assertEquals(inj("..").name, "users");
+  assertEquals(Object.keys(inj("../..")), []);
+
+  assertThrows(
+    // @ts-expect-error: the relative path must point to a block
+    () => inj("../nope"),
+    BlockNotFoundError,
+    "Unit user.nope not found from block",
+  );
+});
+
+Deno.test(
+  "defineBlock creates blocks that can be mounted many times",
+  async () => {
+    const crudRepo = defineBlock<{ table: string }>()((mount) => ({
+      findAll: () => [`${mount.params.table}:1`, `${mount.params.table}:2`],
+      count: () => mount.inject<typeof crudRepo>().findAll().length,
+      where: () => mount.path(),
+      label: () => mount.inject<{ label: string }>("..").label,
+    }));
+
+    const defs = {
+      ...createBlock("user", {
+        label: "Users",
+        ...createBlock("repo", crudRepo, { table: "users" }),
+      }),
+      ...createBlock("post", {
+        label: "Posts",
+        ...createBlock("repo", crudRepo, { table: "posts" }),
+      }),
+    };
+
+    const app = wireApp(defs);
+
+    assertEquals(app("user.repo").findAll(), ["users:1", "users:2"]);
+    assertEquals(app("post.repo").findAll(), ["posts:1", "posts:2"]);
+    assertEquals(app("post.repo").count(), 2);
+    assertEquals(app("user.repo").where(), "user.repo");
+    assertEquals(app("post.repo").where(), "post.repo");
+    assertEquals(app("user.repo").label(), "Users");
+    assertEquals(app("post.repo").label(), "Posts");
+
+    const located = defineBlock()((mount) => ({
+      where: async () => {
+        await Promise.resolve();
+        return mount.path();
+      },
+    }));
+    const userRepo = createBlock("repo", located, undefined);
+    const findWhere = userRepo["repo.where"];
+    const mounted = wireApp({
+      ...createBlock("user", userRepo),
+      "post.find": () => findWhere(),
+    });
+    assertEquals(await mounted("post").find(), "user.repo");
+  },
+);
+
+Deno.test("blocks only expose the units in their export list", () => {
+  const serviceInj = createInjector<Defs>()("user.service");
+  const postInj = createInjector<Defs>()("post");
+
+  const settings = { theme: "dark", isPrivate: true as const };
+
+  const defs = {
+    ...createBlock(
+      "user",
+      {
+        salt: "s4lt",
+        settings,
+        ...createBlock("repo", { findUser: (id: string) => `user:${id}` }),
+        ...createBlock("service", {
+          getUser: (id: string) => serviceInj("../repo").findUser(id),
+          hash: (pass: string) => `${serviceInj("..").salt}:${pass}`,
+        }),
+      },
+      { exports: ["service"] },
+    ),
+    ...createBlock("post", {
+      author: (id: string) => postInj("user.service").getUser(id),
+      // @ts-expect-error: user.repo is not exported by user
+      steal: (id: string) => postInj("user.repo").findUser(id),
+    }),
+  };
+  type Defs = typeof defs;
+
+  const app = wireApp(defs);
+
+  assertEquals(app("post").author("1"), "user:1");
+  assertEquals(app("user.service").hash("1234"), "s4lt:1234");
+  assertEquals(Object.keys(app("user")), []);
+  assertEquals(Object.keys(app("user.repo")), []);
+
+  const error = assertThrows(
+    () => app("post").steal("1"),
+    PrivateUnitAccessError,
+    'Unit "findUser" of block "user.repo" is not exported by block "user" and can not be accessed from block "post"',
+  );
+  assertEquals(error.hidingBlock, "user");
+  assertThrows(
+    // @ts-expect-error: private objects are not visible from other blocks
+    () => app("user").settings,
+    PrivateUnitAccessError,
+    'Unit "settings" of block "user" is private',
+  );
+});
+
+Deno.test("wireApp checks the contracts of the blocks", () => {
+  type UserContract = {
+    db: { users: string[] };
+    "post.service.count": (user: string) => number;
+  };
+  const inject = createInject<UserContract>();
+
+  const userBlock = createBlock(
+    "user",
+    {
+      list: () => inject("db").users,
+      posts: (user: string) => inject("post.service").count(user),
+    },
+    {
+      requires: defineContract<UserContract>({
+        db: true,
+        "post.service.count": true,
+      }),
+    },
+  );
+
+  const defs = {
+    db: { users: ["ann", "bob"] },
+    ...userBlock,
+    ...createBlock("post.service", { count: (user: string) => user.length }),
+  };
+
+  const app = wireApp(defs);
+  assertEquals(app("user").list(), ["ann", "bob"]);
+  assertEquals(app("user").posts("ann"), 3);
+
+  const error = assertThrows(
+    // @ts-expect-error: post.service.count is missing
+    () => wireApp({ db: { users: [] }, ...userBlock }),
+    UnmetContractError,
+    '- "post.service.count" required by block "user"',
+  );
+  assertEquals(error.missing, [{ block: "user", key: "post.service.count" }]);
+
+  // @ts-expect-error: db has another type
+  wireApp({ ...defs, db: { users: [1, 2] } });
+});
+
+Deno.test("composeBlocks rejects duplicate and malformed keys", () => {
+  const userBlock = createBlock("user", { find: () => "user" });
+  const postBlock = createBlock("post", { find: () => "post" });
+
+  const defs = composeBlocks({ config: { port: 3000 } }, userBlock, postBlock);
+  const app = wireApp(defs);
+  assertEquals(app("user").find(), "user");
+  assertEquals(app().config.port, 3000);
+
+  const collision = assertThrows(
+    // @ts-expect-error: "user.find" is defined twice
+    () => composeBlocks(userBlock, { "user.find": () => "fake" }),
+    KeyCollisionError,
+    '- "user.find" in "user", #1',
+  );
+  assertEquals(collision.collisions, [
+    { key: "user.find", blocks: ['"user"', "#1"] },
+  ]);
+
+  const invalid = assertThrows(
+    () => wireApp({ ".config": 1, "user..find": 2, user: 3, "user.x": 4 }),
+    InvalidKeyError,
+    '- "user": it is a unit and the path of block "user"',
+  );
+  assertEquals(
+    invalid.invalidKeys.map(({ key }) => key),
+    [".config", "user..find", "user"],
+  );
+  assertThrows(
+    () => composeBlocks({ a: 1 }, { "a.b.c": 2 }),
+    InvalidKeyError,
+    '- "a": it is a unit and the path of block "a"',
+  );
+});
+
+Deno.test("apps load lazy blocks and can be extended", async () => {
+  let loads = 0;
+  async function loadAdmin() {
+    loads++;
+    await Promise.resolve();
+    return {
+      greet: () => `hello ${app().name}`,
+      ...createBlock("reports", { count: () => 3 }),
+    };
+  }
+
+  const defs = {
+    name: "admin",
+    ...createBlock("features", {
+      ...createLazyBlock("admin", loadAdmin),
+    }),
+  };
+
+  const app = wireApp(defs);
+  assertEquals(loads, 0);
+
+  const admin = await app("features.admin");
+  assertEquals(admin.greet(), "hello admin");
+  assertEquals((await app("features.admin.reports")).count(), 3);
+  assertEquals(loads, 1);
+
+  const inject = createInject<typeof defs>();
+  assertEquals((await inject("features.admin")).greet(), "hello admin");
+  assertEquals((await inject("features.admin.reports.count"))(), 3);
+  assertEquals(loads, 1);
+
+  async function countStats(): Promise<number> {
+    const stats = await injUsers("../stats");
+    return stats.count();
+  }
+
+  const siblingDefs = {
+    ...createBlock("features", {
+      ...createLazyBlock("stats", async () => ({ count: () => 7 })),
+      ...createBlock("users", { countStats }),
+    }),
+  };
+  const injUsers = createInjector<typeof siblingDefs>()("features.users");
+  const siblings = wireApp(siblingDefs);
+  assertEquals(
+    await siblings("features.users").countStats(),
+    7,
+    "relative paths load lazy blocks",
+  );
+
+  const root = app();
+  const extended = app.extend({
+    version: 2,
+    ...createBlock("plugin", { run: () => "running" }),
+  });
+  assertEquals(extended("plugin").run(), "running");
+  assertEquals(extended().version, 2);
+  assertEquals(
+    (root as Record<string, unknown>).version,
+    2,
+    "proxies see the new units",
+  );
+  assertEquals(Object.keys(root), ["name", "version"]);
+
+  assertThrows(
+    () => app.extend({ name: "again" }),
+    KeyCollisionError,
+    '- "name" in app, "extension"',
+  );
+
+  async function slow() {
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    return "ready";
+  }
+  slow.isFactory = true as const;
+
+  const extension = app.extend({ slow });
+  const units = app() as Record<string, unknown>;
+  assertThrows(() => units.slow, UnitNotReadyError);
+  assertEquals(await whenReady(() => units.slow), "ready");
+  assertEquals((await extension)().slow, "ready");
+});
+
+Deno.test("app.replace invalidates the units that depend on it", async () => {
+  const inj = createInjector<Defs>()("api");
+
+  function server() {
+    return { url: `http://${inj().config.host}` };
+  }
+  server.isFactory = true as const;
+
+  async function client() {
+    await Promise.resolve();
+    // injected after an await, still recorded as a dependency
+    const { url } = inj().server;
+    return { url };
+  }
+  client.isFactory = true as const;
+  client.isAsync = true as const;
+
+  const defs = {
+    config: { host: "localhost" },
+    server,
+    client,
+    ...createBlock("api", { url: () => inj().server.url }),
+  };
+  type Defs = typeof defs;
+
+  const app = await wireApp(defs);
+  const root = app();
+  const changes: string[] = [];
+  const stop = app.onChange(({ key, reason, previous }) =>
+    changes.push(`${reason} ${key} ${JSON.stringify(previous)}`),
+  );
+
+  assertEquals(app("api").url(), "http://localhost");
+  await app.replace("config", { host: "example.com" });
+
+  assertEquals(root.server.url, "http://example.com");
+  assertEquals(root.client.url, "http://example.com");
+  assertEquals(app("api").url(), "http://example.com");
+  assertEquals(changes, [
+    'replaced config {"host":"localhost"}',
+    'invalidated server {"url":"http://localhost"}',
+    'invalidated client {"url":"http://localhost"}',
+  ]);
+
+  const replacing = app.replace("config", { host: "async.example.com" });
+  assertEquals(
+    root.client.url,
+    "http://example.com",
+    "async units are served until they are rebuilt",
+  );
+  await replacing;
+  assertEquals(root.client.url, "http://async.example.com");
+  changes.length = 0;
+
+  function session() {
+    return { server: inj().server.url };
+  }
+  session.isFactory = true as const;
+  session.lifetime = "scoped" as const;
+
+  function report() {
+    return { pages: 1 };
+  }
+  report.isFactory = true as const;
+
+  const scoped = await wireApp({ ...defs, session, report });
+  const scope = scoped.createScope();
+  assertEquals(scope().session.server, "http://localhost");
+  const replaced: unknown[] = [];
+  scoped.onChange(({ key, previous }) => replaced.push([key, previous]));
+  await scoped.replace("report", { pages: 2 });
+  await scoped.replace("config", { host: "example.com" });
+  assertEquals(scope().session.server, "http://example.com");
+  assertEquals(replaced, [
+    ["report", undefined],
+    ["config", { host: "localhost" }],
+    ["server", { url: "http://localhost" }],
+    ["session", { server: "http://localhost" }],
+    ["client", { url: "http://localhost" }],
+  ]);
+
+  stop();
+  await app.replace("config", { host: "other" });
+  assertEquals(changes.length, 0);
+
+  const closed: string[] = [];
+  let opened = 0;
+  function conn() {
+    return { id: ++opened };
+  }
+  conn.isFactory = true as const;
+  conn.onDispose = (unit: { id: number }) => closed.push(`conn${unit.id}`);
+
+  const connApp = wireApp({ conn });
+  assertEquals(connApp().conn.id, 1);
+  await connApp.replace("conn", conn);
+  assertEquals(connApp().conn.id, 2);
+  await connApp.dispose();
+  assertEquals(closed, ["conn2"], "replaced instances are left to onChange");
+  await assertRejects(
+    // @ts-expect-error: the unit does not exist
+    () => app.replace("nope", 1),
+    UnitNotFoundError,
+  );
+});
+
+Deno.test("interceptors and decorators wrap function units", async () => {
+  function remove(id: string) {
+    if (id === "0") throw new Error("not allowed");
+    return `removed ${id}`;
+  }
+  remove.isAudited = true as const;
+
+  const defs = {
+    ...createBlock("user.service", {
+      getUser: (id: string) => `user ${id}`,
+      fetchUser: (id: string) => Promise.resolve(`fetched ${id}`),
+    }),
+    ...createBlock("user.repo", { remove }),
+  };
+
+  const log: string[] = [];
+  const app = wireApp(defs, {
+    interceptors: [
+      {
+        match: "user.service.*",
+        intercept: async (call, next) => {
+          const result = await next();
+          log.push(`${call.key}(${call.args.join()}) = ${result}`);
+          return result;
+        },
+      },
+      {
+        flag: "isAudited",
+        intercept: (call, next) => {
+          try {
+            return next();
+          } catch (error) {
+            log.push(`${call.block} failed: ${(error as Error).message}`);
+            throw error;
+          }
+        },
+      },
+    ],
+  });
+
+  assertEquals(await app("user.service").getUser("1"), "user 1");
+  assertEquals(await app("user.service").fetchUser("2"), "fetched 2");
+  assertEquals(app("user.repo").remove("3"), "removed 3");
+  assertThrows(() => app("user.repo").remove("0"), Error, "not allowed");
+  assertEquals(log, [
+    "user.service.getUser(1) = user 1",
+    "user.service.fetchUser(2) = fetched 2",
+    "user.repo failed: not allowed",
+  ]);
+
+  await app.decorate("user.repo.remove", (remove) => (id) => remove(`#${id}`));
+  assertEquals(app("user.repo").remove("4"), "removed #4");
+});
+
+Deno.test("observers receive the resolution events", async () => {
+  const inj = createInjector<Defs>()("api");
+
+  async function db() {
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    return { name: "db" };
+  }
+  db.isFactory = true as const;
+  db.isAsync = true as const;
+
+  function repo() {
+    return { find: () => inj().db.name };
+  }
+  repo.isFactory = true as const;
+
+  function broken() {
+    throw new Error("boom");
+  }
+  broken.isFactory = true as const;
+  broken.lifetime = "transient" as const;
+
+  const defs = {
+    db,
+    ...createBlock("api", { repo, broken }),
+  };
+  type Defs = typeof defs;
+
+  const events: string[] = [];
+  const profiler = createProfiler();
+  const app = await wireApp(defs, {
+    observers: [
+      profiler,
+      {
+        resolveStart: ({ key }) => events.push(`start ${key}`),
+        asyncResolved: ({ key }) => events.push(`async ${key}`),
+      },
+    ],
+  });
+
+  assertEquals(events, ["start db", "async db"]);
+  assertEquals(profiler.slowest(1)[0].key, "db");
+  assertEquals(profiler.report().split("\n")[0], "Slowest factories:");
+
+  app("api").repo;
+  const seen: string[] = [];
+  const stop = app.observe({
+    cacheHit: ({ key, requestingBlock }) =>
+      seen.push(`hit ${key} from "${requestingBlock}"`),
+    resolveError: ({ key, error }) =>
+      seen.push(`error ${key}: ${(error as Error).cause}`),
+  });
+
+  assertEquals(app("api").repo.find(), "db");
+  assertThrows(() => app("api").broken, FactoryFailedError);
+  stop();
+  app("api").repo;
+
+  assertEquals(seen, [
+    'hit api.repo from ""',
+    'hit db from "api"',
+    "error api.broken: Error: boom",
+  ]);
+});
+
+Deno.test("createCollect gathers the contributions of every block", () => {
+  const collect = createCollect<Defs>();
+
+  function migrateUsers() {
+    return "users";
+  }
+  migrateUsers.contributesTo = "migrations" as const;
+  migrateUsers.order = 1;
+
+  function migratePosts() {
+    return "posts";
+  }
+  migratePosts.contributesTo = "migrations" as const;
+  migratePosts.order = 2;
+
+  const defs = {
+    migrate: () => collect("migrations").map((migration) => migration()),
+    ...createBlock("post", {
+      migratePosts,
+      route: { path: "/posts", contributesTo: "routes" as const },
+    }),
+    ...createBlock("user", {
+      migrateUsers,
+      route: { path: "/users", contributesTo: "routes" as const },
+    }),
+  };
+  type Defs = typeof defs;
+
+  const app = wireApp(defs);
+
+  assertEquals(app().migrate(), ["users", "posts"]);
+  const routes = collect("routes", { as: "map" });
+  assertEquals(routes["user.route"].path, "/users");
+  assertEquals(Object.keys(routes), ["post.route", "user.route"]);
+});
+
+Deno.test("app.query finds units by tag and block", () => {
+  function dbCheck() {
+    return () => "db ok";
+  }
+  dbCheck.isFactory = true as const;
+  dbCheck.tags = ["healthcheck"] as const;
+
+  const defs = {
+    ...createBlock("user.service", {
+      check: {
+        run: () => "user ok",
+        tags: ["healthcheck", "public-api"] as const,
+        meta: { owner: "team-a" },
+      },
+      getUser: (id: string) => id,
+      secret: { tags: ["healthcheck"] as const, isPrivate: true as const },
+    }),
+    ...createBlock("db", { dbCheck }),
+    ...createBlock(
+      "cache",
+      { flush: { tags: ["healthcheck"] as const } },
+      { exports: [] },
+    ),
+  };
+
+  const app = wireApp(defs);
+
+  const checks = app.query({ tag: "healthcheck" });
+  assertEquals(
+    checks.map(({ key }) => key),
+    ["user.service.check", "db.dbCheck"],
+    "private and hidden units are skipped",
+  );
+  const [userCheck] = app.query({ tag: "public-api", block: "user.*" });
+  assertEquals(userCheck.value.run(), "user ok");
+  assertEquals(userCheck.meta, { owner: "team-a" });
+  assertEquals(app.query({ tag: "healthcheck", block: "user.*" }).length, 1);
+  assertEquals(
+    app.inspect().units.find(({ key }) => key === "db.dbCheck")?.tags,
+    ["healthcheck"],
+  );
+
+  let built = 0;
+  function handler() {
+    return ++built;
+  }
+  handler.isFactory = true as const;
+  handler.lifetime = "transient" as const;
+  handler.tags = ["route"] as const;
+
+  function request() {
+    return {};
+  }
+  request.isFactory = true as const;
+  request.lifetime = "scoped" as const;
+
+  const web = wireApp(createBlock("web", { handler, request }));
+  const [listed] = web.query({ block: "web" });
+  assertEquals(built, 0, "transient units are built when read");
+  assertEquals(listed.value, 1);
+  assertEquals(web.query({ tag: "route" }).length, 1);
+});
+
+Deno.test("createConfigBlock merges the config sources", () => {
+  const schema = {
+    port: { type: "number", default: 3000 },
+    host: { type: "string", default: "localhost" },
+    debug: { type: "boolean", default: false },
+    dbPassword: { type: "string", required: true, secret: true },
+    name: { type: "string" },
+  } as const;
+
+  const defs = createConfigBlock("config", schema, {
+    file: "config.json",
+    readFile: () => JSON.stringify({ host: "example.com", port: 80 }),
+    env: { APP_PORT: "8080", APP_DB_PASSWORD: "hunter2", APP_DEBUG: "true" },
+    envPrefix: "APP_",
+    overrides: { debug: false },
+  });
+  const app = wireApp(defs);
+  const config = app("config");
+
+  const port: number = config.port;
+  assertEquals(port, 8080);
+  assertEquals(config.host, "example.com");
+  assertEquals(config.debug, false);
+  assertEquals(config.name, undefined);
+  assertEquals(config.dbPassword.reveal(), "hunter2");
+  assertEquals(String(config.dbPassword), "[secret]");
+  assertEquals(JSON.stringify({ ...config }).includes("hunter2"), false);
+
+  const error = assertThrows(
+    () =>
+      createConfigBlock("config", schema, {
+        env: { PORT: "eighty", DEBUG: "maybe" },
+      }),
+    ConfigError,
+    'Invalid config in block "config"',
+  );
+  assertEquals(error.problems, [
+    {
+      field: "port",
+      message: "expected a number in environment variable PORT",
+    },
+    {
+      field: "debug",
+      message: "expected a boolean in environment variable DEBUG",
+    },
+    { field: "dbPassword", message: "missing required value" },
+  ]);
+
+  for (const content of ["null", "[1]", "3"]) {
+    const fileError = assertThrows(
+      () =>
+        createConfigBlock("config", schema, {
+          file: "config.json",
+          readFile: () => content,
+          env: { DB_PASSWORD: "hunter2" },
+        }),
+      ConfigError,
+    );
+    assertEquals(fileError.problems, [
+      { field: "config.json", message: "the file must contain a JSON object" },
+    ]);
+  }
+});
+
+Deno.test("app.health reports the health checks and readiness", async () => {
+  function pool() {
+    return { connected: true };
+  }
+  pool.isFactory = true as const;
+  pool.healthCheck = (unit: { connected: boolean }) => unit.connected;
+
+  function cache() {
+    return { ping: () => Promise.reject(new Error("cache is down")) };
+  }
+  cache.isFactory = true as const;
+  cache.healthCheck = (unit: { ping: () => Promise<void> }) => unit.ping();
+
+  const slow = {
+    healthCheck: () => new Promise(() => {}),
+    healthTimeout: 10,
+  };
+
+  let sessions = 0;
+  function session() {
+    return { id: ++sessions };
+  }
+  session.isFactory = true as const;
+  session.lifetime = "scoped" as const;
+  session.healthCheck = () => false;
+
+  const app = wireApp({
+    ...createBlock("db", { pool, session }),
+    ...createBlock("cache", { cache, slow }),
+  });
+
+  const report = await app.health();
+  assertEquals(report.healthy, false);
+  assertEquals(report.statusCode, 503);
+  assertEquals(report.blocks.db.healthy, true);
+  assertEquals(report.blocks.db.units.pool.status, "healthy");
+  assertEquals(report.blocks.db.units.session, undefined);
+  assertEquals(sessions, 0, "scoped and transient units are skipped");
+  assertEquals(report.blocks.cache.units.cache.error, "cache is down");
+  assertEquals(
+    report.blocks.cache.units.slow.error,
+    'Health check of "cache.slow" timed out after 10ms.',
+  );
+
+  let release = () => {};
+  async function queue() {
+    await new Promise<void>((resolve) => (release = resolve));
+    return {};
+  }
+  queue.isFactory = true as const;
+  queue.isAsync = true as const;
+
+  const ready = wireApp({ ...createBlock("db", { pool }) });
+  assertEquals((await ready.health()).ready, true);
+
+  const extension = ready.extend(createBlock("jobs", { queue }));
+  const pending = await ready.health();
+  assertEquals(pending.ready, false);
+  assertEquals(pending.blocks.jobs.units.queue.status, "pending");
+  release();
+  await extension;
+  assertEquals((await ready.health()).statusCode, 200);
+
+  let fail = () => {};
+  async function broker() {
+    await new Promise<void>((resolve) => (fail = resolve));
+    throw new Error("broker is down");
+  }
+  broker.isFactory = true as const;
+  broker.isAsync = true as const;
+
+  const starting = wireApp(createBlock("mq", { broker }), { wait: false });
+  const startup = await starting.health();
+  assertEquals(startup.statusCode, 503);
+  assertEquals(startup.blocks.mq.units.broker.status, "pending");
+  fail();
+  await assertRejects(() => starting.ready, StartupError);
+  const failed = await starting.health();
+  assertEquals(failed.blocks.mq.units.broker.status, "failed");
+  assertEquals(
+    failed.blocks.mq.units.broker.error,
+    'Factory "mq.broker" failed: broker is down',
+  );
+});
+
+Deno.test("wireApp selects the alternatives of the active profile", () => {
+  const users = ["ann"];
+
+  const defs = {
+    ...createBlock(
+      "user.repo",
+      withProfiles({
+        test: { find: (id: string) => `memory:${id}`, count: (): number => 0 },
+        default: {
+          find: (id: string) => `sql:${id}`,
+          count: () => users.length,
+        },
+      }),
+    ),
+    mailer: withProfiles({
+      test: { send: (to: string) => `fake mail to ${to}` },
+      prod: { send: (to: string) => `mail to ${to}` },
+    }),
+  };
+
+  const testApp = wireApp(defs, { profile: "test" });
+  assertEquals(testApp("user.repo").find("1"), "memory:1");
+  assertEquals(testApp().mailer.send("ann"), "fake mail to ann");
+
+  const prodApp = wireApp(defs, { profile: "prod" });
+  assertEquals(prodApp("user.repo").count(), 1);
+  assertEquals(prodApp().mailer.send("ann"), "mail to ann");
+  assertEquals(
+    prodApp.inspect().units.map(({ key, profile }) => [key, profile]),
+    [
+      ["user.repo.find", "default"],
+      ["user.repo.count", "default"],
+      ["mailer", "prod"],
+    ],
+  );
+
+  assertThrows(
+    () => wireApp(defs),
+    ProfileNotFoundError,
+    'Unit "mailer" has no alternative for the default profile. Available profiles: test, prod',
+  );
+
+  // @ts-expect-error: the alternatives must have the same type
+  withProfiles({ test: (to: string) => to, prod: (to: string) => to.length });
+});